@@ -0,0 +1,171 @@
+import { ApolloClient, NormalizedCacheObject } from '@apollo/client';
+import { GET_CONTENT_ITEMS, GET_FILE, GET_HUBS, GET_HUB } from './queries';
+import { defaultApolloClient } from './client';
+import {
+  compileFilters,
+  createFilterPredicate,
+  splitContentQuery,
+  toContentFiltersInput,
+  toPredicate,
+  type CompileOptions,
+  type FilterCondition,
+  type FilterGroup,
+} from './filterEngine';
+
+/**
+ * DataSource adapters for the tab contract
+ *
+ * These match the DataSource and ContentItem interfaces in the tab contract
+ * structurally, so tabs can assign them to TabPlugin.dataSource; only the
+ * filter types come from the contract itself.
+ */
+
+/**
+ * Filters as provided in ContentContext.filters
+ */
+export interface ContextFilters {
+  searchText: string;
+  active: FilterCondition[];
+  groups?: FilterGroup[]; // AND/OR groups, combined with the rest by AND
+  dateRange?: { start: string; end: string };
+  contentType?: string;
+}
+
+/**
+ * GraphQL ContentFilters input
+ */
+export interface ContentFilters {
+  ownerId?: string;
+  type?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+/**
+ * GraphQL HubFilters input
+ */
+export interface HubFilters {
+  category?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Content item in the shape tabs expect (owner flattened to ownerId/owner)
+ */
+export interface DataSourceItem {
+  id: string;
+  name: string;
+  type: string;
+  ownerId: string;
+  owner?: string;
+  createdAt: string;
+  updatedAt: string;
+  [key: string]: any;
+}
+
+export interface ContentDataSource {
+  fetch(filters?: Partial<ContextFilters>): Promise<DataSourceItem[]>;
+  fetchById(id: string): Promise<DataSourceItem | null>;
+}
+
+type Client = ApolloClient<NormalizedCacheObject>;
+
+// Equality filters from the filter bar, keyed by field name
+const getEqualityValue = (filters: Partial<ContextFilters> | undefined, fields: string[]) =>
+  filters?.active?.find(filter =>
+    fields.includes(filter.field) && filter.operator === 'equals'
+  )?.value;
+
+/**
+ * Translate ContentContext.filters into the GraphQL ContentFilters input
+ *
+ * Only the owner every match must have is sent, the one filter the server
+ * applies to content items; the data source applies all filters to the
+ * results (see splitContentQuery).
+ */
+export const toContentFilters = (filters?: Partial<ContextFilters>): ContentFilters =>
+  toContentFiltersInput(compileFilters(filters));
+
+/**
+ * Translate ContentContext.filters into the GraphQL HubFilters input
+ */
+export const toHubFilters = (filters?: Partial<ContextFilters>): HubFilters => {
+  const result: HubFilters = {};
+
+  const category = getEqualityValue(filters, ['category']);
+  if (category !== undefined) result.category = String(category);
+
+  const isActive = getEqualityValue(filters, ['isActive', 'active']);
+  if (isActive !== undefined) result.isActive = isActive === true || isActive === 'true';
+
+  return result;
+};
+
+// GraphQL returns the owner as a User object; tabs expect ownerId plus a display name
+const toItem = ({ __typename, owner, ...rest }: any): DataSourceItem => ({
+  ...rest,
+  ownerId: owner?.id ?? '',
+  owner: owner?.name,
+});
+
+/**
+ * Data source for files and folders, backed by GET_CONTENT_ITEMS and GET_FILE
+ *
+ * @param client - Apollo client (default: defaultApolloClient)
+ * @param parentId - Restrict results to a folder
+ */
+export const createContentItemsDataSource = (
+  client: Client = defaultApolloClient,
+  parentId?: string
+): ContentDataSource => ({
+  async fetch(filters) {
+    const { input, residual } = splitContentQuery(compileFilters(filters));
+    const { data, error } = await client.query({
+      query: GET_CONTENT_ITEMS,
+      variables: { parentId, filters: input },
+    });
+    if (error) throw error;
+
+    return (data?.contentItems ?? []).map(toItem).filter(toPredicate<DataSourceItem>(residual));
+  },
+
+  async fetchById(id) {
+    const { data, error } = await client.query({ query: GET_FILE, variables: { id } });
+    if (error) throw error;
+
+    return data?.file ? toItem(data.file) : null;
+  },
+});
+
+/**
+ * Data source for hubs, backed by GET_HUBS and GET_HUB
+ *
+ * Hubs have no owner, so ownerId is always empty.
+ *
+ * @param client - Apollo client (default: defaultApolloClient)
+ * @param options - Hub fields searchText matches (default: name)
+ */
+export const createHubsDataSource = (
+  client: Client = defaultApolloClient,
+  options: Pick<CompileOptions, 'searchFields'> = {}
+): ContentDataSource => ({
+  async fetch(filters) {
+    const { data, error } = await client.query({
+      query: GET_HUBS,
+      variables: { filters: toHubFilters(filters) },
+    });
+    if (error) throw error;
+
+    // HubFilters covers category and isActive; only searchText is applied here
+    return (data?.hubs ?? [])
+      .map((hub: any) => toItem({ ...hub, type: 'hub' }))
+      .filter(createFilterPredicate<DataSourceItem>({ searchText: filters?.searchText }, options));
+  },
+
+  async fetchById(id) {
+    const { data, error } = await client.query({ query: GET_HUB, variables: { id } });
+    if (error) throw error;
+
+    return data?.hub ? toItem({ ...data.hub, type: 'hub' }) : null;
+  },
+});
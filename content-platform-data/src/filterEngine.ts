@@ -0,0 +1,187 @@
+import type { ContentFilters, ContextFilters } from './dataSource';
+
+/**
+ * Filter engine
+ *
+ * Compiles the shared filter state (searchText, contentType, dateRange,
+ * active filters and filter groups) into one expression, which can be turned
+ * into an in-memory predicate for content items and into the GraphQL
+ * ContentFilters input. Tabs use it instead of matching items themselves.
+ */
+
+export type FilterOperator = 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'gt' | 'lt' | 'between';
+
+/**
+ * A condition on one item field; dotted fields read nested values (e.g. 'owner.name')
+ *
+ * Text operators ignore case. gt/lt/between compare numbers, then dates,
+ * then strings; between takes [min, max], both inclusive.
+ */
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: unknown;
+  negate?: boolean;
+}
+
+/**
+ * Conditions combined with AND or OR; groups nest
+ */
+export interface FilterGroup {
+  id?: string;
+  combinator: 'and' | 'or';
+  filters: FilterExpression[];
+  negate?: boolean;
+}
+
+export type FilterExpression = FilterCondition | FilterGroup;
+
+export interface CompileOptions {
+  dateField?: string; // Item field dateRange applies to (default: 'updatedAt')
+  searchFields?: string[]; // Item fields searchText matches, any of them (default: ['name'])
+}
+
+export const isFilterGroup = (expression: FilterExpression): expression is FilterGroup =>
+  'combinator' in expression && Array.isArray(expression.filters);
+
+/**
+ * Compile filter state into a single AND group
+ *
+ * contentType matches part of the MIME type, as the GraphQL server does, so
+ * items without one (folders) never match it.
+ *
+ * @example
+ * compileFilters({ searchText: 'report', contentType: 'pdf' });
+ * // { combinator: 'and', filters: [
+ * //   { field: 'name', operator: 'contains', value: 'report' },
+ * //   { field: 'mimeType', operator: 'contains', value: 'pdf' } ] }
+ */
+export const compileFilters = (filters: Partial<ContextFilters> = {}, options: CompileOptions = {}): FilterGroup => {
+  const { dateField = 'updatedAt', searchFields = ['name'] } = options;
+  const compiled: FilterExpression[] = [];
+
+  const searchText = filters.searchText?.trim();
+  if (searchText) {
+    const conditions = searchFields.map((field): FilterCondition => ({ field, operator: 'contains', value: searchText }));
+    compiled.push(conditions.length === 1 ? conditions[0] : { combinator: 'or', filters: conditions });
+  }
+  if (filters.contentType) {
+    compiled.push({ field: 'mimeType', operator: 'contains', value: filters.contentType });
+  }
+  if (filters.dateRange) {
+    compiled.push({ field: dateField, operator: 'between', value: [filters.dateRange.start, filters.dateRange.end] });
+  }
+
+  return { combinator: 'and', filters: [...compiled, ...(filters.active || []), ...(filters.groups || [])] };
+};
+
+const readField = (item: Record<string, any>, field: string): unknown =>
+  field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), item);
+
+const toNumber = (value: unknown) =>
+  typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+
+const toTime = (value: unknown) =>
+  value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+
+// Negative when a < b; NaN when the values cannot be compared
+const compare = (a: unknown, b: unknown): number => {
+  if (a == null || b == null) return NaN;
+
+  const [numberA, numberB] = [toNumber(a), toNumber(b)];
+  if (!isNaN(numberA) && !isNaN(numberB)) return numberA - numberB;
+
+  const [timeA, timeB] = [toTime(a), toTime(b)];
+  if (!isNaN(timeA) && !isNaN(timeB)) return timeA - timeB;
+
+  return String(a).localeCompare(String(b));
+};
+
+const text = (value: unknown) => (value == null ? '' : String(value).toLowerCase());
+
+const operators: Record<FilterOperator, (actual: unknown, expected: any) => boolean> = {
+  equals: (actual, expected) =>
+    Array.isArray(actual) ? actual.includes(expected) : actual === expected || compare(actual, expected) === 0,
+  contains: (actual, expected) => text(actual).includes(text(expected)),
+  startsWith: (actual, expected) => text(actual).startsWith(text(expected)),
+  endsWith: (actual, expected) => text(actual).endsWith(text(expected)),
+  gt: (actual, expected) => compare(actual, expected) > 0,
+  lt: (actual, expected) => compare(actual, expected) < 0,
+  between: (actual, [min, max]: [unknown, unknown]) =>
+    (min == null || compare(actual, min) >= 0) && (max == null || compare(actual, max) <= 0),
+};
+
+const isOperator = (operator: string): operator is FilterOperator => operator in operators;
+
+/**
+ * Turn an expression into an in-memory predicate
+ *
+ * Empty groups match everything. Conditions with an unknown operator, which
+ * only untyped input (e.g. parsed JSON) can hold, are ignored (they match
+ * everything) with a warning.
+ *
+ * @example
+ * const visible = items.filter(toPredicate(compileFilters(context.filters)));
+ */
+export const toPredicate = <T extends Record<string, any>>(expression: FilterExpression): ((item: T) => boolean) => {
+  let predicate: (item: T) => boolean;
+
+  if (isFilterGroup(expression)) {
+    const children = expression.filters.map(child => toPredicate<T>(child));
+    predicate =
+      expression.combinator === 'or' && children.length > 0
+        ? item => children.some(child => child(item))
+        : item => children.every(child => child(item));
+  } else if (isOperator(expression.operator)) {
+    const match = operators[expression.operator];
+    predicate = item => match(readField(item, expression.field), expression.value);
+  } else {
+    console.warn(`[FilterEngine] Ignoring filter on "${expression.field}" with unknown operator "${expression.operator}"`);
+    return () => true;
+  }
+
+  return expression.negate ? item => !predicate(item) : predicate;
+};
+
+/**
+ * Compile filter state straight into a predicate
+ */
+export const createFilterPredicate = <T extends Record<string, any>>(
+  filters?: Partial<ContextFilters>,
+  options?: CompileOptions
+): ((item: T) => boolean) => toPredicate<T>(compileFilters(filters, options));
+
+// Conditions that must hold for every match: top-level AND, through nested non-negated AND groups
+const requiredConditions = (expression: FilterExpression): FilterCondition[] => {
+  if (!isFilterGroup(expression)) {
+    return expression.negate ? [] : [expression];
+  }
+  return expression.combinator === 'and' && !expression.negate ? expression.filters.flatMap(requiredConditions) : [];
+};
+
+/**
+ * Split an expression into the GraphQL ContentFilters input and the filters
+ * to apply to the results
+ *
+ * The contentItems resolver only narrows results by owner, so the input gets
+ * the owner every match must have and nothing else. The input is a
+ * pre-filter: the residual is the whole expression, so apply
+ * toPredicate(residual) to the results whatever the server applied.
+ *
+ * @example
+ * const { input, residual } = splitContentQuery(compileFilters(filters));
+ * const items = (await fetchItems(input)).filter(toPredicate(residual));
+ */
+export const splitContentQuery = (expression: FilterExpression): { input: ContentFilters; residual: FilterExpression } => {
+  const owner = requiredConditions(expression).find(
+    ({ field, operator }) => operator === 'equals' && (field === 'owner' || field === 'ownerId')
+  );
+
+  return { input: owner ? { ownerId: String(owner.value) } : {}, residual: expression };
+};
+
+/**
+ * Turn an expression into the GraphQL ContentFilters input (see splitContentQuery)
+ */
+export const toContentFiltersInput = (expression: FilterExpression): ContentFilters =>
+  splitContentQuery(expression).input;
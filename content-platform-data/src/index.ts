@@ -68,3 +68,35 @@ export {
   useUpdateHub,
   useGenerateReport,
 } from './hooks';
+
+// Export tab contract data sources
+export {
+  createContentItemsDataSource,
+  createHubsDataSource,
+  toContentFilters,
+  toHubFilters,
+} from './dataSource';
+export type {
+  ContentDataSource,
+  DataSourceItem,
+  ContextFilters,
+  ContentFilters,
+  HubFilters,
+} from './dataSource';
+
+// Export filter engine
+export {
+  compileFilters,
+  toPredicate,
+  createFilterPredicate,
+  splitContentQuery,
+  toContentFiltersInput,
+  isFilterGroup,
+} from './filterEngine';
+export type {
+  FilterOperator,
+  FilterCondition,
+  FilterGroup,
+  FilterExpression,
+  CompileOptions,
+} from './filterEngine';
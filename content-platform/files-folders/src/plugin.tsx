@@ -1,6 +1,7 @@
 import React, { Suspense, lazy, useState, useEffect, useMemo } from 'react';
 import { useDispatch } from 'react-redux';
 import type { TabPlugin, TabProps, ContentItem } from '@tab-contract';
+import { createContentItemsDataSource, createFilterPredicate } from '@content-platform/data';
 
 // Import Redux action for clearing search
 const setSearchTextModule = import('shared_data/store');
@@ -92,6 +93,9 @@ const mockFiles: ContentItem[] = [
   { id: 'f8', name: 'Vacation.jpg', type: 'file', size: '4.2 MB', ownerId: 'user-john', owner: 'John Doe', folderId: 'john-personal-photos', path: 'user-john/john-personal/john-personal-photos', createdAt: '2024-01-08', updatedAt: '2024-01-08', mimeType: 'image/jpeg' },
 ];
 
+// GraphQL-backed data source, shared by the tab and the shell's prefetch
+const filesDataSource = createContentItemsDataSource();
+
 // Tab component implementation
 const FilesTabComponent: React.FC<TabProps> = ({ context, onNavigate, onSelect }) => {
   const dispatch = useDispatch();
@@ -110,28 +114,37 @@ const FilesTabComponent: React.FC<TabProps> = ({ context, onNavigate, onSelect }
   // Track if in search mode
   const isSearchMode = Boolean(context.filters.searchText && context.filters.searchText.trim());
 
-  // Helper function to get files for a folder (including children)
-  const getFilesForFolder = (folderId: string): ContentItem[] => {
-    return mockFiles.filter(file => {
-      // Match exact folder or any parent folder in the path
-      return file.folderId === folderId || file.path?.startsWith(folderId.replace(/-/g, '/'));
-    });
+  // Helper function to check whether an item is in a folder (including children)
+  const isInFolder = (item: ContentItem, folderId: string): boolean => {
+    // Match exact folder or any parent folder in the path
+    return item.folderId === folderId || item.parentId === folderId || item.path?.startsWith(folderId.replace(/-/g, '/'));
   };
 
-  // React to context changes (filters)
+  // The shell rebuilds context on every render, so compare filters by value
+  const filtersKey = JSON.stringify(context.filters);
+
+  // React to context changes (filters) and folder changes
   useEffect(() => {
-    if (context.filters.searchText) {
-      // Search mode: show all matching files across all folders
-      const filtered = mockFiles.filter(f =>
-        f.name.toLowerCase().includes(context.filters.searchText.toLowerCase())
-      );
-      setFiles(filtered);
-    } else {
-      // Normal mode: show files for selected folder
-      const folderFiles = getFilesForFolder(selectedFolder);
-      setFiles(folderFiles);
-    }
-  }, [context.filters.searchText, selectedFolder]);
+    // Search mode: show all matching files across all folders; normal mode: the selected folder
+    const inView = (items: ContentItem[]) =>
+      isSearchMode ? items : items.filter(item => isInFolder(item, selectedFolder));
+
+    let cancelled = false;
+    filesDataSource.fetch(context.filters)
+      .then(items => {
+        if (!cancelled) setFiles(inView(items));
+      })
+      .catch(error => {
+        // Fall back to the demo data when the GraphQL server is unavailable
+        console.warn('[FilesTab] Data source unavailable, using demo data:', error);
+        if (!cancelled) {
+          setFiles(inView(mockFiles.filter(createFilterPredicate<ContentItem>(context.filters))));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filtersKey, selectedFolder]);
 
   // Helper function to build full breadcrumb path by traversing tree
   const buildBreadcrumbPath = (nodeId: string, tree: any[]): Array<{id: string, label: string, icon: string}> => {
@@ -589,6 +602,7 @@ const FilesTabPlugin: TabPlugin = {
     version: '1.0.0',
     componentVersion: '^1.0.0', // Compatible with shared-components v1.x
     description: 'Browse and manage files and folders',
+    resultBucket: 'files',
   },
 
   component: FilesTabComponent,
@@ -597,8 +611,8 @@ const FilesTabPlugin: TabPlugin = {
   // reducerKey: 'files',
   // reducer: filesReducer,
 
-  // Could provide a data source
-  // dataSource: new FilesDataSource(),
+  // Data source for files and folders (GraphQL)
+  dataSource: filesDataSource,
 
   // Actions this tab provides
   actions: [
@@ -609,6 +623,7 @@ const FilesTabPlugin: TabPlugin = {
       handler: async () => {
         console.log('Upload file action');
       },
+      permissions: ['files:upload'],
     },
     {
       id: 'download',
@@ -635,11 +650,8 @@ const FilesTabPlugin: TabPlugin = {
       return mockFiles.length; // Return total when no search
     }
 
-    const lowerSearch = searchText.toLowerCase();
-    return mockFiles.filter(file =>
-      file.name.toLowerCase().includes(lowerSearch) ||
-      file.mimeType?.toLowerCase().includes(lowerSearch)
-    ).length;
+    const matches = createFilterPredicate<ContentItem>({ searchText }, { searchFields: ['name', 'mimeType'] });
+    return mockFiles.filter(matches).length;
   },
 
   contextRequirements: ['filters', 'selection'],
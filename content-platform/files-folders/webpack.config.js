@@ -62,6 +62,7 @@ module.exports = (env, argv) => {
           'react-dom': { singleton: true, requiredVersion: packageJson.dependencies['react-dom'], strictVersion: false },
           '@reduxjs/toolkit': { singleton: true, requiredVersion: '^2.0.0', strictVersion: false },
           'react-redux': { singleton: true, requiredVersion: '^9.0.0', strictVersion: false },
+          '@platform/context': { singleton: true, requiredVersion: '^1.0.0', strictVersion: false },
         },
         shareStrategy: 'version-first',
         dts: {
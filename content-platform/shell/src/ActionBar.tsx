@@ -0,0 +1,109 @@
+import React, { Suspense, lazy, useEffect, useRef, useState } from 'react';
+import { publishEvent, usePermissionChecker } from '@platform/context';
+import type { ActionDefinition, ContentContext } from '@tab-contract';
+
+const Button = lazy(() => import('shared_components/Button').then(m => ({ default: m.Button })));
+
+interface ActionBarProps {
+  actions: ActionDefinition[];
+  context: ContentContext;
+}
+
+// A throwing `disabled` callback disables the action rather than breaking the bar
+const isActionDisabled = (action: ActionDefinition, context: ContentContext): boolean => {
+  try {
+    return action.disabled?.(context) ?? false;
+  } catch (error) {
+    console.error(`[ActionBar] disabled() failed for action ${action.id}:`, error);
+    return true;
+  }
+};
+
+/**
+ * Contextual action toolbar for the active tab
+ *
+ * Renders the tab's ActionDefinitions, re-evaluates `disabled` against the live
+ * ContentContext on every render, disables actions whose `permissions` the
+ * current user lacks, and reports each run on the platform event bus
+ * (bulk-action:triggered, then bulk-action:completed or bulk-action:failed).
+ */
+export const ActionBar: React.FC<ActionBarProps> = ({ actions, context }) => {
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const isMountedRef = useRef(false);
+  const can = usePermissionChecker();
+
+  // Set in the effect body, so StrictMode's unmount/remount leaves it true
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  const runAction = async (action: ActionDefinition) => {
+    if (pendingIds.includes(action.id) || !can(action.permissions) || isActionDisabled(action, context)) {
+      return;
+    }
+
+    const itemIds = context.selection.selectedIds;
+    setPendingIds(prev => [...prev, action.id]);
+    publishEvent('bulk-action:triggered', { action: action.id, itemIds, timestamp: new Date() }, 'content_shell');
+
+    try {
+      await action.handler(context);
+      publishEvent('bulk-action:completed', { action: action.id, itemIds, timestamp: new Date() }, 'content_shell');
+    } catch (error) {
+      console.error(`[ActionBar] Action ${action.id} failed:`, error);
+      publishEvent('bulk-action:failed', {
+        action: action.id,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      }, 'content_shell');
+    } finally {
+      if (isMountedRef.current) {
+        setPendingIds(prev => prev.filter(id => id !== action.id));
+      }
+    }
+  };
+
+  // Box design system - Action toolbar styles
+  const actionBarStyles: React.CSSProperties = {
+    display: 'flex',
+    gap: '8px',
+    alignItems: 'center',
+    padding: '8px 20px',
+    borderBottom: '1px solid #e2e2e2',
+    backgroundColor: '#ffffff',
+  };
+
+  return (
+    <div style={actionBarStyles} role="toolbar" aria-label="Tab actions">
+      <Suspense fallback={null}>
+        {actions.map(action => {
+          const isPending = pendingIds.includes(action.id);
+          const isAllowed = can(action.permissions);
+
+          return (
+            <span key={action.id} title={isAllowed ? undefined : `You don't have permission to ${action.label.toLowerCase()}`}>
+              <Button
+                size="small"
+                variant="secondary"
+                disabled={isPending || !isAllowed || isActionDisabled(action, context)}
+                onClick={() => runAction(action)}
+              >
+                {action.icon && <span style={{ marginRight: '6px' }}>{action.icon}</span>}
+                {isPending ? `${action.label}...` : action.label}
+              </Button>
+            </span>
+          );
+        })}
+      </Suspense>
+    </div>
+  );
+};
+
+export default ActionBar;
@@ -0,0 +1,89 @@
+import React from 'react';
+import type { TabCompatibilityReport } from './tabManifest';
+
+interface CompatibilityPanelProps {
+  reports: TabCompatibilityReport[];
+  onClose: () => void;
+}
+
+const statusColors: Record<TabCompatibilityReport['status'], string> = {
+  compatible: '#26c281',
+  unknown: '#767676',
+  warned: '#f5b31b',
+  fallback: '#f5b31b',
+  blocked: '#ed3757',
+};
+
+/**
+ * Diagnostic panel listing every tab's declared shared-components range
+ * against the version the host actually loaded
+ */
+export const CompatibilityPanel: React.FC<CompatibilityPanelProps> = ({ reports, onClose }) => {
+  // Box design system - Diagnostic panel styles
+  const panelStyles: React.CSSProperties = {
+    padding: '16px 20px',
+    borderBottom: '1px solid #e2e2e2',
+    backgroundColor: '#f7f7f8',
+    fontSize: '13px',
+    color: '#222222',
+  };
+
+  const headerStyles: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '12px',
+    fontWeight: 600,
+  };
+
+  const cellStyles: React.CSSProperties = {
+    padding: '6px 12px 6px 0',
+    borderBottom: '1px solid #e2e2e2',
+    textAlign: 'left',
+  };
+
+  return (
+    <div style={panelStyles}>
+      <div style={headerStyles}>
+        <span>Tab compatibility</span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#767676', fontSize: '13px' }}
+        >
+          Close
+        </button>
+      </div>
+
+      {reports.length === 0 ? (
+        <div style={{ color: '#767676' }}>No tabs loaded</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#767676' }}>
+              <th style={cellStyles}>Tab</th>
+              <th style={cellStyles}>Declared range</th>
+              <th style={cellStyles}>Actual version</th>
+              <th style={cellStyles}>Status</th>
+              <th style={cellStyles}>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reports.map(report => (
+              <tr key={report.tabId}>
+                <td style={cellStyles}>{report.tabId}</td>
+                <td style={cellStyles}><code>{report.declaredRange}</code></td>
+                <td style={cellStyles}><code>{report.actualVersion ?? 'unknown'}</code></td>
+                <td style={{ ...cellStyles, color: statusColors[report.status], fontWeight: 600 }}>
+                  {report.status}
+                </td>
+                <td style={{ ...cellStyles, color: '#767676' }}>{report.reason || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CompatibilityPanel;
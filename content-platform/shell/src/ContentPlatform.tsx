@@ -1,115 +1,277 @@
-import React, { Suspense, lazy, useState, useEffect } from 'react';
+import React, { Suspense, lazy, useState, useEffect, useMemo, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import type { TabPlugin, ContentContext } from '@tab-contract';
+import { useFeatureFlagChecker, usePermissionChecker } from '@platform/context';
+import type { ErrorBoundaryProps } from 'shared_components/ErrorBoundary';
+import { resolveTabContext, type ContentContext, type TabManifest, type TabPlugin } from '@tab-contract';
+import {
+  fetchTabManifest,
+  getActiveEntries,
+  loadTabsFromManifest,
+  loadTabPlugin,
+  resolveSharedComponentsVersion,
+  type TabCompatibilityReport,
+} from './tabManifest';
+import { tabRegistry, useRegisteredTabs } from './tabRegistry';
+import { useTabLifecycle } from './useTabLifecycle';
+import { useSearchHitCounts } from './useSearchHitCounts';
+import { ActionBar } from './ActionBar';
+import { CompatibilityPanel } from './CompatibilityPanel';
+import { ContextRequirementTile } from './ContextRequirementTile';
 
 // Lazy load shared components
 const Card = lazy(() => import('shared_components/Layout').then(m => ({ default: m.Card })));
 const Input = lazy(() => import('shared_components/Input').then(m => ({ default: m.Input })));
 const Button = lazy(() => import('shared_components/Button').then(m => ({ default: m.Button })));
+// Falls back to a passthrough so a failed shared-components load does not take the tab down with it
+const ErrorBoundary = lazy<React.ComponentType<ErrorBoundaryProps>>(() =>
+  import('shared_components/ErrorBoundary')
+    .then(m => ({ default: m.ErrorBoundary }))
+    .catch(() => ({
+      default: ({ children }: ErrorBoundaryProps) => <>{children}</>
+    }))
+);
+// Confines a tab's useTabSelector/useTabDispatch to its own state
+const TabScopeProvider = lazy<React.ComponentType<{ tabId: string; reducerKey?: string; children: React.ReactNode }>>(
+  () => import('shared_data/store').then(m => ({ default: m.TabScopeProvider }))
+);
 
-// Load tab plugins (not lazy - they're configs, not components)
-// We'll lazy load the actual components inside the plugins
-const loadFilesTab = () => import('files_tab/Plugin').catch(() => ({
-  default: {
-    config: {
-      id: 'files',
-      name: 'Files (unavailable)',
-      version: '1.0.0',
-      componentVersion: '1.0.0'
-    },
-    component: () => <div style={{ padding: '20px', color: '#999' }}>Files tab not available</div>
-  } as TabPlugin
-}));
-
-const loadHubsTab = () => import('hubs_tab/Plugin').catch(() => ({
-  default: {
-    config: {
-      id: 'hubs',
-      name: 'Hubs (unavailable)',
-      version: '1.0.0',
-      componentVersion: '1.0.0'
-    },
-    component: () => <div style={{ padding: '20px', color: '#999' }}>Hubs tab not available</div>
-  } as TabPlugin
-}));
+/**
+ * Derive breadcrumbs from a path, e.g. "/docs/q4" -> Home / docs / q4
+ */
+const buildBreadcrumbs = (path: string): Array<{ label: string; path: string }> => {
+  const segments = path.split('/').filter(Boolean);
+  return [
+    { label: 'Home', path: '/' },
+    ...segments.map((segment, index) => ({
+      label: decodeURIComponent(segment),
+      path: `/${segments.slice(0, index + 1).join('/')}`,
+    })),
+  ];
+};
 
-interface LoadedTab {
-  plugin: TabPlugin;
+interface ContentPlatformProps {
+  // Overrides the manifest URL configured at build time
+  manifestUrl?: string;
 }
 
-const ContentPlatform: React.FC = () => {
+const ContentPlatform: React.FC<ContentPlatformProps> = ({ manifestUrl }) => {
   const dispatch = useDispatch();
   const [activeTabId, setActiveTabId] = useState<string>('files');
-  const [loadedTabs, setLoadedTabs] = useState<LoadedTab[]>([]);
+  const [isLoadingTabs, setIsLoadingTabs] = useState(true);
+  const [tabEntries, setTabEntries] = useState<Record<string, TabManifest>>({});
+  const [tabFlags, setTabFlags] = useState<Record<string, string>>({});
+  const [manifest, setManifest] = useState<{ entries: TabManifest[]; sharedComponentsVersion: string | null } | null>(null);
+  const [compatibilityReports, setCompatibilityReports] = useState<TabCompatibilityReport[]>([]);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const registeredTabs = useRegisteredTabs();
+  const can = usePermissionChecker();
+  const isFlagEnabled = useFeatureFlagChecker();
+
+  // Tabs the current user lacks permissions for, or whose feature flag is off, are hidden
+  const tabs = useMemo(
+    () => registeredTabs.filter(plugin => can(plugin.config.permissions) && isFlagEnabled(tabFlags[plugin.config.id])),
+    [registeredTabs, can, isFlagEnabled, tabFlags]
+  );
 
-  // Get state from Redux (from shared-data)
-  const filters = useSelector((state: any) => state.filters || { active: [], searchText: '' });
-  const selection = useSelector((state: any) => state.selection || { selectedIds: [] });
-  const navigation = useSelector((state: any) => state.navigation || { currentPath: '/', breadcrumbs: [] });
+  // Get state from Redux (from shared-data); slices the store lacks stay undefined
+  const filters = useSelector((state: any) => state.filters);
+  const selection = useSelector((state: any) => state.selection);
+  const navigation = useSelector((state: any) => state.navigation);
 
-  // Load tabs on mount
+  // Load the manifest and the running shared-components version once per manifest URL
   useEffect(() => {
-    const loadTabs = async () => {
-      try {
-        const filesModule = await loadFilesTab();
-        const hubsModule = await loadHubsTab();
-
-        const tabs: LoadedTab[] = [
-          { plugin: filesModule.default },
-          { plugin: hubsModule.default },
-        ];
-
-        // Register tabs and inject reducers if needed
-        tabs.forEach(({ plugin }) => {
-          if (plugin.reducer && plugin.reducerKey) {
-            // Inject reducer (assuming store is available via shared-data)
-            console.log(`[ContentPlatform] Would inject reducer: ${plugin.reducerKey}`);
+    let cancelled = false;
+
+    Promise.all([fetchTabManifest(manifestUrl), resolveSharedComponentsVersion()])
+      .then(([entries, version]) => {
+        if (cancelled) return;
+        setTabFlags(Object.fromEntries(
+          entries.flatMap(entry => entry.featureFlag ? [[entry.id, entry.featureFlag]] : [])
+        ));
+        setManifest({ entries, sharedComponentsVersion: version });
+      })
+      .catch(error => {
+        console.error('Error loading tabs:', error);
+        if (!cancelled) setIsLoadingTabs(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manifestUrl]);
+
+  // Manifest entries whose remotes have been loaded; flags only decide whether they are shown
+  const loadedEntryIdsRef = useRef<Set<string>>(new Set());
+
+  // Load remotes of active entries not loaded yet, e.g. when a feature flag turns on
+  useEffect(() => {
+    if (!manifest) return;
+
+    const pending = manifest.entries.filter(entry => !loadedEntryIdsRef.current.has(entry.id));
+    if (getActiveEntries(pending, isFlagEnabled).length === 0) {
+      setIsLoadingTabs(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    loadTabsFromManifest(pending, manifest.sharedComponentsVersion, isFlagEnabled)
+      .then(loadedTabs => {
+        // A newer run (new manifest or flags) loads these tabs itself
+        if (cancelled) return;
+
+        // Register tabs; reducers are injected when a tab is first activated
+        loadedTabs.forEach(({ manifest: entry, plugin }) => {
+          loadedEntryIdsRef.current.add(entry.id);
+
+          // Already registered, e.g. when the platform is remounted
+          if (tabRegistry.get(plugin.config.id)) {
+            return;
           }
 
-          if (plugin.onActivate) {
-            console.log(`[ContentPlatform] Tab ${plugin.config.id} activated`);
+          try {
+            tabRegistry.register(plugin);
+          } catch (error) {
+            console.error(`[ContentPlatform] Failed to register tab ${plugin.config.id}:`, error);
           }
         });
 
-        setLoadedTabs(tabs);
-      } catch (error) {
+        const loadedIds = loadedTabs.map(({ plugin }) => plugin.config.id);
+        setCompatibilityReports(prev => [
+          ...prev.filter(report => !loadedIds.includes(report.tabId)),
+          ...loadedTabs.flatMap(({ compatibility }) => compatibility ? [compatibility] : []),
+        ]);
+        setTabEntries(prev => ({
+          ...prev,
+          ...Object.fromEntries(loadedTabs.map(({ manifest: entry, plugin }) => [plugin.config.id, entry])),
+        }));
+      })
+      .catch(error => {
         console.error('Error loading tabs:', error);
-      }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingTabs(false);
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [manifest, isFlagEnabled]);
 
-    loadTabs();
-  }, []);
+  // Keep a valid tab selected as tabs are added and removed at runtime
+  useEffect(() => {
+    if (tabs.length > 0 && !tabs.some(plugin => plugin.config.id === activeTabId)) {
+      setActiveTabId(tabs[0].config.id);
+    }
+  }, [tabs, activeTabId]);
 
-  // Create context to pass to tabs
-  const contentContext: ContentContext = {
-    filters: {
-      searchText: filters.searchText || '',
-      active: filters.active || [],
+  // Context exactly as the host can provide it, checked against contextRequirements
+  const hostContext: Partial<ContentContext> = {
+    filters: filters && {
+      searchText: filters.searchText,
+      active: filters.active,
+      groups: filters.groups,
       dateRange: filters.dateRange,
       contentType: filters.contentType,
     },
-    selection: {
-      selectedIds: selection.selectedIds || [],
+    selection: selection && {
+      selectedIds: selection.selectedIds,
       lastSelectedId: selection.lastSelectedId,
     },
+    navigation: navigation && {
+      currentPath: navigation.currentPath,
+      breadcrumbs: navigation.breadcrumbs,
+    },
+  };
+
+  // Create context to pass to tabs that do not declare requirements
+  const contentContext: ContentContext = {
+    filters: {
+      searchText: filters?.searchText || '',
+      active: filters?.active || [],
+      groups: filters?.groups || [],
+      dateRange: filters?.dateRange,
+      contentType: filters?.contentType,
+    },
+    selection: {
+      selectedIds: selection?.selectedIds || [],
+      lastSelectedId: selection?.lastSelectedId,
+    },
     navigation: {
-      currentPath: navigation.currentPath || '/',
-      breadcrumbs: navigation.breadcrumbs || [],
+      currentPath: navigation?.currentPath || '/',
+      breadcrumbs: navigation?.breadcrumbs || [],
     },
   };
 
-  const handleNavigate = (path: string) => {
-    console.log('[ContentPlatform] Navigate to:', path);
-    // Dispatch navigation action
+  // Breadcrumbs follow the current path, including back/forward through the history
+  const currentPath = navigation?.currentPath;
+  useEffect(() => {
+    if (currentPath === undefined) return;
+
+    const updateBreadcrumbs = async () => {
+      try {
+        const { setBreadcrumbs } = await import('shared_data/store');
+        dispatch(setBreadcrumbs(buildBreadcrumbs(currentPath)));
+      } catch (error) {
+        console.error('[ContentPlatform] Failed to dispatch breadcrumbs:', error);
+      }
+    };
+    updateBreadcrumbs();
+  }, [currentPath, dispatch]);
+
+  // Tab callbacks update the shared store; tabs receive the result through context on the next render
+  const handleNavigate = async (path: string) => {
+    try {
+      const { navigate } = await import('shared_data/store');
+      dispatch(navigate(path));
+    } catch (error) {
+      console.error('[ContentPlatform] Failed to dispatch navigation:', error);
+    }
   };
 
-  const handleSelect = (ids: string[]) => {
-    console.log('[ContentPlatform] Select items:', ids);
-    // Dispatch selection action
+  const handleSelect = async (ids: string[]) => {
+    try {
+      const { selectAll, clearSelection } = await import('shared_data/store');
+      dispatch(ids.length > 0 ? selectAll(ids) : clearSelection());
+    } catch (error) {
+      console.error('[ContentPlatform] Failed to dispatch selection:', error);
+    }
   };
 
-  const activeTab = loadedTabs.find(t => t.plugin.config.id === activeTabId);
-  const ActiveTabComponent = activeTab?.plugin.component;
+  // Filters each tab was last prefetched with, so hovering again does not refetch
+  const prefetchedFiltersRef = useRef<Map<string, string>>(new Map());
+
+  // Warm a tab's data source while the user hovers it, before it is activated
+  const prefetchTab = (plugin: TabPlugin) => {
+    if (!plugin.dataSource) return;
+
+    const filtersKey = JSON.stringify(contentContext.filters);
+    if (prefetchedFiltersRef.current.get(plugin.config.id) === filtersKey) return;
+    prefetchedFiltersRef.current.set(plugin.config.id, filtersKey);
+
+    plugin.dataSource.fetch(contentContext.filters).catch(error => {
+      prefetchedFiltersRef.current.delete(plugin.config.id);
+      console.warn(`[ContentPlatform] Prefetch failed for tab ${plugin.config.id}:`, error);
+    });
+  };
+
+  // Re-fetch a crashed tab's remoteEntry and swap the fresh plugin into the registry
+  const reloadTab = async (tabId: string) => {
+    const entry = tabEntries[tabId];
+    if (!entry) return;
+
+    const plugin = await loadTabPlugin(entry, { force: true });
+    tabRegistry.replace(plugin);
+  };
+
+  const activeTab = tabs.find(plugin => plugin.config.id === activeTabId);
+  const readyTabId = useTabLifecycle(activeTab);
+  const ActiveTabComponent = readyTabId === activeTabId ? activeTab?.component : undefined;
+
+  // Tabs that declare contextRequirements only see the slices they asked for
+  const { context: activeTabContext, issues: contextIssues } = activeTab?.contextRequirements
+    ? resolveTabContext(activeTab.contextRequirements, hostContext)
+    : { context: contentContext, issues: [] };
 
   // Box design system - Content platform styles
   const containerStyles: React.CSSProperties = {
@@ -157,23 +319,21 @@ const ContentPlatform: React.FC = () => {
     fontWeight: 400,
   };
 
-  // Get search hit counts for each tab
-  const getTabHitCount = (plugin: any) => {
-    const searchQuery = contentContext.filters.searchText;
+  const compatibilityIssues = compatibilityReports.filter(report => !report.compatible).length;
 
-    if (!searchQuery || searchQuery.trim() === '') {
-      return null; // Don't show count when not searching
-    }
+  const hitCounts = useSearchHitCounts(tabs, contentContext.filters.searchText);
 
-    if (plugin.getSearchHitCount) {
-      try {
-        return plugin.getSearchHitCount(searchQuery);
-      } catch (error) {
-        console.error(`Error getting hit count for ${plugin.config.id}:`, error);
-        return null;
-      }
+  const renderHitCount = (tabId: string) => {
+    const state = hitCounts[tabId];
+    if (!state) return null; // Don't show count when not searching
+
+    if (state.status === 'loading') {
+      return <span style={hitCountStyles} aria-label="Counting results">(…)</span>;
+    }
+    if (state.status === 'error') {
+      return <span style={{ ...hitCountStyles, color: '#ed3757' }} title={state.error}>(!)</span>;
     }
-    return null;
+    return <span style={hitCountStyles}>({state.count})</span>;
   };
 
   return (
@@ -182,8 +342,7 @@ const ContentPlatform: React.FC = () => {
         {/* Box design system - Horizontal tab navigation */}
         <div style={tabNavContainerStyles}>
           <div style={tabNavStyles}>
-            {loadedTabs.map(({ plugin }) => {
-              const hitCount = getTabHitCount(plugin);
+            {tabs.map((plugin) => {
               const isActive = activeTabId === plugin.config.id;
 
               return (
@@ -194,6 +353,7 @@ const ContentPlatform: React.FC = () => {
                   onMouseEnter={(e) => {
                     if (!isActive) {
                       e.currentTarget.style.color = '#222222';
+                      prefetchTab(plugin);
                     }
                   }}
                   onMouseLeave={(e) => {
@@ -204,32 +364,59 @@ const ContentPlatform: React.FC = () => {
                 >
                   {plugin.config.icon && <span style={{ marginRight: '6px' }}>{plugin.config.icon}</span>}
                   {plugin.config.name}
-                  {hitCount !== null && (
-                    <span style={hitCountStyles}>({hitCount})</span>
-                  )}
+                  {renderHitCount(plugin.config.id)}
                 </button>
               );
             })}
+
+            <button
+              style={{ ...tabButtonStyles(showDiagnostics), marginLeft: 'auto' }}
+              onClick={() => setShowDiagnostics(show => !show)}
+              title="Tab compatibility diagnostics"
+            >
+              Diagnostics
+              {compatibilityIssues > 0 && <span style={hitCountStyles}>({compatibilityIssues})</span>}
+            </button>
           </div>
         </div>
 
+        {showDiagnostics && (
+          <CompatibilityPanel reports={compatibilityReports} onClose={() => setShowDiagnostics(false)} />
+        )}
+
+        {/* Active tab's contextual actions */}
+        {activeTab?.actions && activeTabContext && (
+          <ActionBar key={activeTab.config.id} actions={activeTab.actions} context={activeTabContext} />
+        )}
+
         {/* Active Tab Content */}
         <div style={contentStyles}>
-          {ActiveTabComponent ? (
+          {activeTab && !activeTabContext ? (
+            <ContextRequirementTile tabName={activeTab.config.name} issues={contextIssues} />
+          ) : ActiveTabComponent && activeTabContext ? (
             <Suspense fallback={
               <div style={{ padding: '40px', textAlign: 'center', color: '#767676' }}>
                 Loading tab...
               </div>
             }>
-              <ActiveTabComponent
-                context={contentContext}
-                onNavigate={handleNavigate}
-                onSelect={handleSelect}
-              />
+              <ErrorBoundary
+                key={activeTabId}
+                name={activeTab?.config.name || activeTabId}
+                onRetry={() => reloadTab(activeTabId)}
+              >
+                <TabScopeProvider tabId={activeTabId} reducerKey={activeTab?.reducerKey}>
+                  <ActiveTabComponent
+                    context={activeTabContext}
+                    onNavigate={handleNavigate}
+                    onSelect={handleSelect}
+                    config={tabEntries[activeTabId]?.config}
+                  />
+                </TabScopeProvider>
+              </ErrorBoundary>
             </Suspense>
           ) : (
             <div style={{ padding: '40px', textAlign: 'center', color: '#767676' }}>
-              {loadedTabs.length === 0 ? 'Loading tabs...' : 'No tab selected'}
+              {isLoadingTabs ? 'Loading tabs...' : activeTab ? 'Loading tab...' : 'No tab selected'}
             </div>
           )}
         </div>
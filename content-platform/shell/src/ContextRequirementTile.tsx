@@ -0,0 +1,45 @@
+import React from 'react';
+import type { ContextRequirementIssue } from '@tab-contract';
+
+interface ContextRequirementTileProps {
+  tabName: string;
+  issues: ContextRequirementIssue[];
+}
+
+/**
+ * Error tile shown instead of a tab whose contextRequirements this host
+ * cannot satisfy
+ */
+export const ContextRequirementTile: React.FC<ContextRequirementTileProps> = ({ tabName, issues }) => {
+  // Box design system - Error tile styles
+  const tileStyles: React.CSSProperties = {
+    margin: '40px auto',
+    maxWidth: '480px',
+    padding: '20px',
+    border: '1px solid #ed3757',
+    borderRadius: '4px',
+    backgroundColor: '#fff5f6',
+    color: '#222222',
+    fontSize: '13px',
+  };
+
+  return (
+    <div style={tileStyles} role="alert">
+      <div style={{ fontWeight: 600, marginBottom: '8px' }}>
+        {tabName} cannot be displayed
+      </div>
+      <div style={{ color: '#767676', marginBottom: '8px' }}>
+        This host does not provide the context the tab requires:
+      </div>
+      <ul style={{ paddingLeft: '20px' }}>
+        {issues.map(issue => (
+          <li key={issue.key}>
+            <code>{issue.key}</code>: {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ContextRequirementTile;
@@ -1,6 +1,7 @@
 import React, { Suspense, lazy } from 'react';
 import { createRoot } from 'react-dom/client';
 import { Provider } from 'react-redux';
+import { PlatformProvider, addEventMiddleware, createLoggingMiddleware, type User } from '@platform/context';
 
 // Import store module
 const createStoreModule = import('shared_data/store');
@@ -33,6 +34,19 @@ const ThemeProvider = lazy(() =>
 
 import ContentPlatform from './ContentPlatform';
 
+// Log platform events during development only
+if (process.env.NODE_ENV !== 'production') {
+  addEventMiddleware(createLoggingMiddleware());
+}
+
+// Standalone development user with every permission
+const devUser: User = {
+  id: 'dev-user',
+  name: 'Developer',
+  email: 'dev@example.com',
+  permissions: ['*'],
+};
+
 async function bootstrap() {
   const { createStore } = await createStoreModule;
   const store = createStore();
@@ -46,7 +60,9 @@ async function bootstrap() {
       <Suspense fallback={<div style={{ padding: '20px' }}>Loading...</div>}>
         <PlatformContextProvider>
           <ThemeProvider>
-            <ContentPlatform />
+            <PlatformProvider user={devUser}>
+              <ContentPlatform />
+            </PlatformProvider>
           </ThemeProvider>
         </PlatformContextProvider>
       </Suspense>
@@ -431,3 +431,69 @@ export default NavigationProvider;
 
 }
 
+
+declare module 'shared_components/Version' {
+/**
+ * Version of the shared-components build that is actually running
+ *
+ * Hosts compare this against each tab's TabConfig.componentVersion
+ * before mounting the tab.
+ */
+export declare const version: string;
+export default version;
+
+}
+
+
+declare module 'shared_components/ErrorBoundary' {
+import React from 'react';
+/**
+ * Error details passed to the telemetry hook
+ */
+export interface ErrorReport {
+    boundary: string;
+    error: Error;
+    componentStack?: string;
+    timestamp: Date;
+}
+export type ErrorReporter = (report: ErrorReport) => void;
+/**
+ * Route errors caught by every ErrorBoundary to a telemetry service
+ *
+ * shared-components is a singleton, so one call in the host applies to all
+ * boundaries, including those rendered by remotes. Pass null to restore the
+ * default console reporter.
+ */
+export declare const setErrorReporter: (reporter: ErrorReporter | null) => void;
+export interface ErrorBoundaryProps {
+    name: string;
+    children: React.ReactNode;
+    onRetry?: () => void | Promise<void>;
+    resetKeys?: unknown[];
+}
+interface ErrorBoundaryState {
+    error: Error | null;
+    retrying: boolean;
+    retryError: string | null;
+    attempt: number;
+}
+/**
+ * Error boundary for micro-frontend sections
+ *
+ * Catches render errors in its subtree, reports them through the telemetry
+ * hook and shows a failure card with a retry button. Retry runs onRetry (if
+ * given) and then remounts the children.
+ */
+export declare class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+    state: ErrorBoundaryState;
+    private isUnmounted;
+    static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState>;
+    componentDidCatch(error: Error, info: React.ErrorInfo): void;
+    componentDidUpdate(prevProps: ErrorBoundaryProps): void;
+    componentWillUnmount(): void;
+    private handleRetry;
+    render(): React.JSX.Element;
+}
+export default ErrorBoundary;
+
+}
@@ -0,0 +1,223 @@
+import React from 'react';
+import { init, registerRemotes, loadRemote } from '@module-federation/enhanced/runtime';
+import { checkTabCompatibility, type TabPlugin, type TabManifest, type TabCompatibility } from '@tab-contract';
+
+// Injected by webpack DefinePlugin (see webpack.config.js)
+declare const __DEFAULT_TAB_MANIFEST__: TabManifest[];
+declare const __TAB_MANIFEST_URL__: string;
+
+/**
+ * Outcome of the componentVersion check for a loaded tab
+ */
+export interface TabCompatibilityReport extends TabCompatibility {
+  status: 'compatible' | 'unknown' | 'warned' | 'blocked' | 'fallback';
+}
+
+/**
+ * A manifest entry together with the plugin it resolved to
+ */
+export interface LoadedTab {
+  manifest: TabManifest;
+  plugin: TabPlugin;
+  compatibility?: TabCompatibilityReport; // Missing when the remote failed to load
+}
+
+/**
+ * Resolve the shared-components version actually running in this host
+ *
+ * @returns null when the version module cannot be loaded
+ */
+export const resolveSharedComponentsVersion = async (): Promise<string | null> => {
+  try {
+    const { version } = await import('shared_components/Version');
+    return version;
+  } catch (error) {
+    console.warn('[ContentPlatform] Could not resolve shared-components version:', error);
+    return null;
+  }
+};
+
+/**
+ * Fetch the tab manifest
+ *
+ * The manifest is a JSON array of TabManifest entries. When no URL is
+ * configured (or the request fails) the manifest baked in at build time is used,
+ * so the shell keeps working without a manifest service.
+ */
+export const fetchTabManifest = async (
+  url: string = __TAB_MANIFEST_URL__
+): Promise<TabManifest[]> => {
+  if (!url) {
+    return __DEFAULT_TAB_MANIFEST__;
+  }
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const manifest = await response.json();
+    if (!Array.isArray(manifest)) {
+      throw new Error('Manifest must be an array of tab entries');
+    }
+
+    return manifest as TabManifest[];
+  } catch (error) {
+    console.error(`[ContentPlatform] Failed to fetch tab manifest from ${url}, using built-in manifest:`, error);
+    return __DEFAULT_TAB_MANIFEST__;
+  }
+};
+
+/**
+ * Enabled entries in display order
+ *
+ * Entries gated by a feature flag are only active while the flag is enabled.
+ */
+export const getActiveEntries = (
+  manifest: TabManifest[],
+  isFlagEnabled: (flag?: string) => boolean = flag => !flag
+): TabManifest[] =>
+  manifest
+    .filter(entry => entry.enabled && isFlagEnabled(entry.featureFlag))
+    .sort((a, b) => a.order - b.order);
+
+// Federation runtime for manifest remotes, initialized once; loadTabPlugin registers each entry
+init({ name: 'content_shell', remotes: [] });
+
+const getRemoteName = (entry: TabManifest) => entry.remoteName || entry.id;
+
+const getRemoteModuleId = (entry: TabManifest) =>
+  `${getRemoteName(entry)}/${entry.module.replace(/^\.\//, '')}`;
+
+/**
+ * Placeholder plugin rendered when a remote cannot be loaded
+ */
+export const createUnavailablePlugin = (entry: TabManifest): TabPlugin => ({
+  config: {
+    id: entry.id,
+    name: `${entry.config?.name || entry.id} (unavailable)`,
+    version: '1.0.0',
+    componentVersion: '1.0.0',
+  },
+  component: () => (
+    <div style={{ padding: '20px', color: '#999' }}>
+      {entry.config?.name || entry.id} tab not available
+    </div>
+  ),
+});
+
+/**
+ * Placeholder plugin rendered instead of a tab blocked by the version check
+ */
+const createIncompatiblePlugin = (plugin: TabPlugin, compatibility: TabCompatibility): TabPlugin => ({
+  config: plugin.config,
+  component: () => (
+    <div style={{ padding: '40px', textAlign: 'center', color: '#767676' }}>
+      {plugin.config.name} is not compatible with this version of the platform ({compatibility.reason}).
+    </div>
+  ),
+});
+
+/**
+ * Register a manifest entry as a remote and load its plugin
+ *
+ * Remotes are registered through the Module Federation runtime, so tabs do not
+ * need to be listed in the shell's webpack config.
+ */
+export const loadTabPlugin = async (
+  entry: TabManifest,
+  options: { force?: boolean } = {}
+): Promise<TabPlugin> => {
+  registerRemotes([{ name: getRemoteName(entry), entry: entry.remoteEntry }], { force: options.force });
+
+  const module = await loadRemote<{ default: TabPlugin }>(getRemoteModuleId(entry));
+  if (!module?.default) {
+    throw new Error(`Remote ${getRemoteModuleId(entry)} did not export a tab plugin`);
+  }
+
+  return module.default;
+};
+
+/**
+ * Apply the entry's onIncompatible policy to a plugin that failed the version check
+ *
+ * - warn: keep the plugin and log a warning (default)
+ * - fallback: load the entry's fallback build, blocking if there is none
+ * - block: replace the tab with an explanation
+ */
+const resolveIncompatibleTab = async (
+  entry: TabManifest,
+  plugin: TabPlugin,
+  compatibility: TabCompatibility
+): Promise<LoadedTab> => {
+  const policy = entry.onIncompatible || 'warn';
+
+  if (policy === 'warn') {
+    console.warn(`[ContentPlatform] Tab ${entry.id}: ${compatibility.reason}`);
+    return { manifest: entry, plugin, compatibility: { ...compatibility, status: 'warned' } };
+  }
+
+  if (policy === 'fallback' && entry.fallback) {
+    try {
+      // The fallback usually shares the container name, so replace the registered remote
+      const fallbackPlugin = await loadTabPlugin({ ...entry, ...entry.fallback }, { force: true });
+      return {
+        manifest: entry,
+        plugin: fallbackPlugin,
+        compatibility: {
+          ...checkTabCompatibility(fallbackPlugin, compatibility.actualVersion),
+          status: 'fallback',
+        },
+      };
+    } catch (error) {
+      console.error(`[ContentPlatform] Failed to load fallback for tab ${entry.id}:`, error);
+    }
+  }
+
+  return {
+    manifest: entry,
+    plugin: createIncompatiblePlugin(plugin, compatibility),
+    compatibility: { ...compatibility, status: 'blocked' },
+  };
+};
+
+/**
+ * Load all enabled tabs from the manifest
+ *
+ * Each plugin's componentVersion is checked against the running
+ * shared-components version. Tabs that fail to load are replaced with an
+ * "unavailable" placeholder so one broken remote does not take the whole
+ * platform down. Remotes of tabs behind a disabled feature flag are not
+ * fetched at all.
+ */
+export const loadTabsFromManifest = async (
+  manifest: TabManifest[],
+  sharedComponentsVersion: string | null = null,
+  isFlagEnabled?: (flag?: string) => boolean
+): Promise<LoadedTab[]> => {
+  const entries = getActiveEntries(manifest, isFlagEnabled);
+
+  return Promise.all(
+    entries.map(async (entry): Promise<LoadedTab> => {
+      let plugin: TabPlugin;
+      try {
+        plugin = await loadTabPlugin(entry);
+      } catch (error) {
+        console.error(`[ContentPlatform] Failed to load tab ${entry.id}:`, error);
+        return { manifest: entry, plugin: createUnavailablePlugin(entry) };
+      }
+
+      const compatibility = checkTabCompatibility(plugin, sharedComponentsVersion);
+      if (!compatibility.compatible) {
+        return resolveIncompatibleTab(entry, plugin, compatibility);
+      }
+
+      return {
+        manifest: entry,
+        plugin,
+        compatibility: { ...compatibility, status: sharedComponentsVersion === null ? 'unknown' : 'compatible' },
+      };
+    })
+  );
+};
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from 'react';
+import { DefaultTabRegistry, type TabPlugin, type TabRegistry } from '@tab-contract';
+
+/**
+ * Shell-wide tab registry
+ *
+ * Exposed as `content_shell/TabRegistry` so other modules can add or remove
+ * tabs at runtime; ContentPlatform re-renders on every change.
+ *
+ * @example
+ * const { tabRegistry } = await import('content_shell/TabRegistry');
+ * tabRegistry.register(MyTabPlugin);
+ */
+export const tabRegistry: TabRegistry = new DefaultTabRegistry();
+
+/**
+ * Subscribe to the registered tabs
+ */
+export const useRegisteredTabs = (registry: TabRegistry = tabRegistry): TabPlugin[] =>
+  useSyncExternalStore(
+    (onChange) => registry.subscribe(onChange),
+    () => registry.getAll()
+  );
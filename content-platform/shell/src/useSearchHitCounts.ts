@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { publishEvent } from '@platform/context';
+import type { TabPlugin } from '@tab-contract';
+
+/**
+ * Hit count state for one tab
+ */
+export type HitCountState =
+  | { status: 'loading' }
+  | { status: 'ready'; count: number }
+  | { status: 'error'; error: string };
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+type ResultBucket = NonNullable<TabPlugin['config']['resultBucket']>;
+
+// Tabs feed the named totals of search:results-updated through config.resultBucket
+const publishTotals = (query: string, counts: Record<string, number>, tabs: TabPlugin[]) => {
+  const byTab = { ...counts };
+  const bucketTotal = (bucket: ResultBucket) =>
+    tabs
+      .filter(plugin => plugin.config.resultBucket === bucket)
+      .reduce((sum, plugin) => sum + (byTab[plugin.config.id] ?? 0), 0);
+
+  publishEvent('search:results-updated', {
+    query,
+    results: {
+      files: bucketTotal('files'),
+      folders: bucketTotal('folders'),
+      hubs: bucketTotal('hubs'),
+      total: Object.values(byTab).reduce((sum, count) => sum + count, 0),
+    },
+    byTab,
+  }, 'content_shell');
+};
+
+/**
+ * Search hit counts for every tab that implements getSearchHitCount
+ *
+ * Counts are requested once the search text has been stable for
+ * SEARCH_DEBOUNCE_MS. Results for an outdated query are discarded, so a slow
+ * tab can never overwrite counts for newer search text. Once every tab has
+ * settled, the totals are published as search:results-updated.
+ *
+ * @returns hit count state keyed by tab id; empty when not searching
+ */
+export const useSearchHitCounts = (
+  tabs: TabPlugin[],
+  searchText: string
+): Record<string, HitCountState> => {
+  const [hitCounts, setHitCounts] = useState<Record<string, HitCountState>>({});
+  const query = searchText.trim();
+
+  useEffect(() => {
+    const countingTabs = tabs.filter(plugin => plugin.getSearchHitCount);
+
+    if (!query || countingTabs.length === 0) {
+      setHitCounts({});
+      return;
+    }
+
+    let cancelled = false;
+
+    setHitCounts(
+      Object.fromEntries(countingTabs.map(plugin => [plugin.config.id, { status: 'loading' } as HitCountState]))
+    );
+
+    const timer = setTimeout(() => {
+      const counts: Record<string, number> = {};
+
+      const requests = countingTabs.map(async plugin => {
+        const tabId = plugin.config.id;
+        let state: HitCountState;
+
+        try {
+          // Wrap in a promise so synchronous throws are handled the same way
+          const count = await Promise.resolve().then(() => plugin.getSearchHitCount!(query));
+          if (typeof count !== 'number' || Number.isNaN(count)) {
+            throw new Error(`getSearchHitCount returned ${String(count)}`);
+          }
+          counts[tabId] = count;
+          state = { status: 'ready', count };
+        } catch (error) {
+          console.error(`[ContentPlatform] Error getting hit count for ${tabId}:`, error);
+          state = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+        }
+
+        if (!cancelled) {
+          setHitCounts(previous => ({ ...previous, [tabId]: state }));
+        }
+      });
+
+      Promise.all(requests).then(() => {
+        if (!cancelled) {
+          publishTotals(query, counts, countingTabs);
+        }
+      });
+    }, SEARCH_DEBOUNCE_MS);
+
+    // Debounce and cancel: a newer query or tab set supersedes this one
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [tabs, query]);
+
+  return hitCounts;
+};
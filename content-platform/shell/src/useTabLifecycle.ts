@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { useStore } from 'react-redux';
+import type { DynamicStore } from 'shared_data/store';
+import { publishEvent } from '@platform/context';
+import type { TabPlugin } from '@tab-contract';
+import { tabRegistry } from './tabRegistry';
+
+/**
+ * Run a lifecycle hook and publish the matching platform event
+ *
+ * Hook failures are logged rather than thrown, so a broken hook in one tab
+ * does not block switching to another.
+ */
+const runLifecycleHook = async (plugin: TabPlugin, hook: 'onActivate' | 'onDeactivate') => {
+  const start = performance.now();
+
+  try {
+    await plugin[hook]?.();
+  } catch (error) {
+    console.error(`[ContentPlatform] ${hook} failed for tab ${plugin.config.id}:`, error);
+  }
+
+  publishEvent(hook === 'onActivate' ? 'tab:activated' : 'tab:deactivated', {
+    tabId: plugin.config.id,
+    timestamp: new Date(),
+    durationMs: Math.round(performance.now() - start),
+  }, 'content_shell');
+};
+
+const injectTabReducer = (store: DynamicStore, plugin: TabPlugin) => {
+  if (!plugin.reducer || !plugin.reducerKey) {
+    return;
+  }
+
+  try {
+    store.injectTabReducer(plugin.config.id, plugin.reducerKey, plugin.reducer);
+  } catch (error) {
+    console.error(`[ContentPlatform] Could not inject reducer for tab ${plugin.config.id}:`, error);
+  }
+};
+
+/**
+ * Tab activation lifecycle
+ *
+ * Whenever the active tab changes, the previous tab's onDeactivate is awaited,
+ * then the new tab's reducer is injected (namespaced by tab id) and its
+ * onActivate awaited. Transitions are queued so hooks never overlap when the
+ * user switches tabs quickly.
+ *
+ * @returns the id of the tab that finished activating; render a tab's
+ * component only once this matches, so its reducer exists before it mounts
+ */
+export const useTabLifecycle = (activeTab: TabPlugin | undefined): string | null => {
+  const store = useStore() as unknown as DynamicStore;
+  const [readyTabId, setReadyTabId] = useState<string | null>(null);
+  const currentTabRef = useRef<TabPlugin | undefined>(undefined);
+  const transitionRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    transitionRef.current = transitionRef.current.then(async () => {
+      const previous = currentTabRef.current;
+
+      if (previous === activeTab) {
+        return;
+      }
+
+      if (previous) {
+        currentTabRef.current = undefined;
+        await runLifecycleHook(previous, 'onDeactivate');
+      }
+
+      if (!activeTab) {
+        return;
+      }
+
+      injectTabReducer(store, activeTab);
+      await runLifecycleHook(activeTab, 'onActivate');
+
+      currentTabRef.current = activeTab;
+      setReadyTabId(activeTab.config.id);
+    });
+  }, [activeTab, store]);
+
+  // Deactivate the current tab when the platform unmounts
+  useEffect(() => () => {
+    transitionRef.current = transitionRef.current.then(async () => {
+      const previous = currentTabRef.current;
+      currentTabRef.current = undefined;
+      if (previous) {
+        await runLifecycleHook(previous, 'onDeactivate');
+      }
+    });
+  }, []);
+
+  // Remove the reducers of tabs when they are unregistered
+  useEffect(() => tabRegistry.subscribe(({ type, plugin }) => {
+    if (type === 'removed') {
+      store.removeTabReducers(plugin.config.id);
+    }
+  }), [store]);
+
+  return readyTabId;
+};
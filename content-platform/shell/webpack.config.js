@@ -1,3 +1,4 @@
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const { ModuleFederationPlugin } = require('@module-federation/enhanced/webpack');
 const path = require('path');
@@ -12,6 +13,31 @@ module.exports = (env, argv) => {
     return process.env[envVar] || defaultUrl;
   };
 
+  // Built-in tab manifest, used when TAB_MANIFEST_URL is not set.
+  // Tabs are registered at runtime, so they are not listed under `remotes`.
+  const defaultTabManifest = [
+    {
+      id: 'files',
+      remoteName: 'files_tab',
+      remoteEntry: isProduction
+        ? `${getRemoteUrl('files_tab', 'https://files-folders.vercel.app')}/remoteEntry.js`
+        : 'http://localhost:3004/remoteEntry.js',
+      module: './Plugin',
+      enabled: true,
+      order: 1,
+    },
+    {
+      id: 'hubs',
+      remoteName: 'hubs_tab',
+      remoteEntry: isProduction
+        ? `${getRemoteUrl('hubs_tab', 'https://hubs-tab.vercel.app')}/remoteEntry.js`
+        : 'http://localhost:3005/remoteEntry.js',
+      module: './Plugin',
+      enabled: true,
+      order: 2,
+    },
+  ];
+
   return {
     entry: './src/index.tsx',
     mode: argv.mode || 'development',
@@ -48,6 +74,7 @@ module.exports = (env, argv) => {
         filename: 'remoteEntry.js',
         exposes: {
           './ContentPlatform': './src/ContentPlatform',
+          './TabRegistry': './src/tabRegistry',
         },
         remotes: {
           shared_components: isProduction
@@ -56,24 +83,23 @@ module.exports = (env, argv) => {
           shared_data: isProduction
             ? `shared_data@${getRemoteUrl('shared_data', 'https://shared-data.vercel.app')}/remoteEntry.js`
             : 'shared_data@http://localhost:3002/remoteEntry.js',
-          files_tab: isProduction
-            ? `files_tab@${getRemoteUrl('files_tab', 'https://files-folders.vercel.app')}/remoteEntry.js`
-            : 'files_tab@http://localhost:3004/remoteEntry.js',
-          hubs_tab: isProduction
-            ? `hubs_tab@${getRemoteUrl('hubs_tab', 'https://hubs-tab.vercel.app')}/remoteEntry.js`
-            : 'hubs_tab@http://localhost:3005/remoteEntry.js',
         },
         shared: {
           react: { singleton: true, requiredVersion: packageJson.dependencies.react, strictVersion: false },
           'react-dom': { singleton: true, requiredVersion: packageJson.dependencies['react-dom'], strictVersion: false },
           '@reduxjs/toolkit': { singleton: true, requiredVersion: packageJson.dependencies['@reduxjs/toolkit'], strictVersion: false },
           'react-redux': { singleton: true, requiredVersion: packageJson.dependencies['react-redux'], strictVersion: false },
+          '@platform/context': { singleton: true, requiredVersion: packageJson.dependencies['@platform/context'], strictVersion: false },
         },
         shareStrategy: 'version-first',
         dts: {
           consumeTypes: true,
         },
       }),
+      new webpack.DefinePlugin({
+        __DEFAULT_TAB_MANIFEST__: JSON.stringify(defaultTabManifest),
+        __TAB_MANIFEST_URL__: JSON.stringify(process.env.TAB_MANIFEST_URL || ''),
+      }),
       new HtmlWebpackPlugin({
         template: './public/index.html',
       }),
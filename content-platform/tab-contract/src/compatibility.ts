@@ -0,0 +1,181 @@
+import type { TabPlugin } from './index';
+
+type Version = [number, number, number];
+
+interface Comparator {
+  operator: '>=' | '>' | '<=' | '<' | '=';
+  version: Version;
+}
+
+const VERSION_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:[-+].*)?$/;
+
+const isWildcard = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+
+/**
+ * Parse a (possibly partial) version such as "1", "1.2", "1.x" or "1.2.3-beta.1"
+ *
+ * Returns the known numeric parts; wildcard and missing parts are omitted.
+ * Prerelease and build metadata are ignored.
+ */
+const parsePartial = (input: string): number[] | null => {
+  const match = VERSION_PATTERN.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+
+  const parts: number[] = [];
+  for (const part of match.slice(1, 4)) {
+    if (isWildcard(part)) {
+      break;
+    }
+    parts.push(Number(part));
+  }
+  return parts;
+};
+
+const toVersion = (parts: number[]): Version => [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0];
+
+const compare = (a: Version, b: Version): number => {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+};
+
+// Smallest version above every version matching the given partial
+const nextAfter = (parts: number[]): Version => {
+  if (parts.length === 0) return [Infinity, 0, 0];
+  if (parts.length === 1) return [parts[0] + 1, 0, 0];
+  if (parts.length === 2) return [parts[0], parts[1] + 1, 0];
+  return [parts[0], parts[1], parts[2] + 1];
+};
+
+/**
+ * Expand one range token (e.g. "^1.2.0", "~1.4", ">=2", "1.x") into comparators
+ */
+const parseToken = (token: string): Comparator[] | null => {
+  const [, operator = '', rest] = /^(\^|~|>=|<=|>|<|=)?(.*)$/.exec(token) || [];
+  const parts = parsePartial(rest);
+  if (!parts) {
+    return null;
+  }
+
+  const lower = toVersion(parts);
+
+  switch (operator) {
+    case '^': {
+      // Allow changes that do not modify the left-most non-zero part
+      const significant = lower.findIndex(part => part !== 0);
+      const index = significant === -1 || significant >= parts.length ? Math.max(parts.length - 1, 0) : significant;
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: nextAfter(parts.slice(0, index + 1)) },
+      ];
+    }
+    case '~':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: nextAfter(parts.slice(0, Math.min(Math.max(parts.length, 1), 2))) },
+      ];
+    case '>':
+      // ">1.2" means above every 1.2.x release
+      return [parts.length === 3 ? { operator, version: lower } : { operator: '>=', version: nextAfter(parts) }];
+    case '<=':
+      return [parts.length === 3 ? { operator, version: lower } : { operator: '<', version: nextAfter(parts) }];
+    case '>=':
+    case '<':
+      return [{ operator, version: lower }];
+    default:
+      // Exact or partial version, e.g. "1.2.3" or "1.x"
+      return parts.length === 3
+        ? [{ operator: '=', version: lower }]
+        : [
+            { operator: '>=', version: lower },
+            { operator: '<', version: nextAfter(parts) },
+          ];
+  }
+};
+
+const test = (version: Version, { operator, version: bound }: Comparator): boolean => {
+  const result = compare(version, bound);
+  switch (operator) {
+    case '>=': return result >= 0;
+    case '>': return result > 0;
+    case '<=': return result <= 0;
+    case '<': return result < 0;
+    default: return result === 0;
+  }
+};
+
+/**
+ * Check whether a version satisfies a semver range
+ *
+ * Supports exact versions, x-ranges ("1.x", "*"), caret and tilde ranges,
+ * comparators (">=1.2.0 <2.0.0") and alternatives joined with "||".
+ *
+ * @throws Error when the version or range cannot be parsed
+ */
+export const satisfiesVersion = (version: string, range: string): boolean => {
+  const parts = parsePartial(version);
+  if (!parts || parts.length !== 3) {
+    throw new Error(`Invalid version "${version}"`);
+  }
+
+  const actual = toVersion(parts);
+
+  return range.split('||').some(alternative => {
+    const tokens = alternative.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+      // An empty range matches any version
+      return true;
+    }
+
+    return tokens.every(token => {
+      const comparators = parseToken(token);
+      if (!comparators) {
+        throw new Error(`Invalid version range "${range}"`);
+      }
+      return comparators.every(comparator => test(actual, comparator));
+    });
+  });
+};
+
+/**
+ * Result of comparing a tab's declared componentVersion with the host
+ */
+export interface TabCompatibility {
+  tabId: string;
+  declaredRange: string;
+  actualVersion: string | null; // null when the host version could not be resolved
+  compatible: boolean;
+  reason?: string;
+}
+
+/**
+ * Check a plugin's componentVersion against the shared-components version
+ * the host actually loaded
+ *
+ * An unknown host version is reported as compatible, so tabs still load when
+ * the version cannot be determined.
+ */
+export const checkTabCompatibility = (
+  plugin: TabPlugin,
+  actualVersion: string | null
+): TabCompatibility => {
+  const { id: tabId, componentVersion: declaredRange } = plugin.config;
+  const report = { tabId, declaredRange, actualVersion };
+
+  if (actualVersion === null) {
+    return { ...report, compatible: true, reason: 'shared-components version unknown' };
+  }
+
+  try {
+    return satisfiesVersion(actualVersion, declaredRange)
+      ? { ...report, compatible: true }
+      : { ...report, compatible: false, reason: `requires shared-components ${declaredRange}, host provides ${actualVersion}` };
+  } catch (error) {
+    return { ...report, compatible: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+};
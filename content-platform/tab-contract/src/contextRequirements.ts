@@ -0,0 +1,104 @@
+import type { ContentContext } from './index';
+
+type ContextKey = keyof ContentContext;
+
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Runtime shape checks for each context slice
+ *
+ * Each check returns an error message, or null when the slice is well-formed.
+ */
+const sliceChecks: Record<ContextKey, (slice: any) => string | null> = {
+  filters: (slice) => {
+    if (typeof slice.searchText !== 'string') return 'filters.searchText must be a string';
+    if (!Array.isArray(slice.active)) return 'filters.active must be an array';
+    return null;
+  },
+  selection: (slice) => {
+    if (!isStringArray(slice.selectedIds)) return 'selection.selectedIds must be an array of strings';
+    return null;
+  },
+  navigation: (slice) => {
+    if (typeof slice.currentPath !== 'string') return 'navigation.currentPath must be a string';
+    if (!Array.isArray(slice.breadcrumbs)) return 'navigation.breadcrumbs must be an array';
+    return null;
+  },
+};
+
+/**
+ * Context slices a host can provide
+ */
+export const CONTEXT_KEYS = Object.keys(sliceChecks) as ContextKey[];
+
+/**
+ * Problem found while resolving a tab's context requirements
+ */
+export interface ContextRequirementIssue {
+  key: string;
+  problem: 'unknown' | 'missing' | 'invalid';
+  message: string;
+}
+
+/**
+ * Validate the requirement list declared by a plugin
+ *
+ * Used at registration time to catch typos such as 'selections'.
+ */
+export const validateContextRequirements = (requirements: unknown): string[] => {
+  if (requirements === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(requirements)) {
+    return ['contextRequirements must be an array'];
+  }
+
+  return requirements
+    .filter(key => !CONTEXT_KEYS.includes(key))
+    .map(key => `contextRequirements contains unknown context slice "${String(key)}" (expected one of: ${CONTEXT_KEYS.join(', ')})`);
+};
+
+/**
+ * Build the context a tab is allowed to see
+ *
+ * Every required slice must be present in the host context and well-formed.
+ * Only the required slices are passed on (principle of least privilege), so the
+ * returned context is typed as ContentContext but holds just those slices.
+ *
+ * @returns the scoped context, or null with the list of issues when the host
+ * cannot satisfy the requirements
+ */
+export const resolveTabContext = (
+  requirements: ContextKey[],
+  hostContext: Partial<ContentContext>
+): { context: ContentContext | null; issues: ContextRequirementIssue[] } => {
+  const issues: ContextRequirementIssue[] = [];
+  const scoped: Partial<ContentContext> = {};
+
+  requirements.forEach(key => {
+    if (!CONTEXT_KEYS.includes(key)) {
+      issues.push({ key, problem: 'unknown', message: `Unknown context slice "${key}"` });
+      return;
+    }
+
+    const slice = hostContext[key];
+    if (typeof slice !== 'object' || slice === null) {
+      issues.push({ key, problem: 'missing', message: `Host does not provide "${key}"` });
+      return;
+    }
+
+    const error = sliceChecks[key](slice);
+    if (error) {
+      issues.push({ key, problem: 'invalid', message: error });
+      return;
+    }
+
+    (scoped as Record<ContextKey, unknown>)[key] = slice;
+  });
+
+  return issues.length === 0
+    ? { context: scoped as ContentContext, issues }
+    : { context: null, issues };
+};
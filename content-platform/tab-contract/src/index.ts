@@ -1,5 +1,6 @@
 import { ComponentType, ReactNode } from 'react';
 import { Reducer } from '@reduxjs/toolkit';
+import type { FilterCondition, FilterGroup } from '@content-platform/data';
 
 /**
  * Tab configuration metadata
@@ -11,15 +12,28 @@ export interface TabConfig {
   version: string;
   componentVersion: string; // Required shared-components version (e.g., "^1.0.0")
   description?: string;
+  permissions?: string[]; // All required to see the tab, e.g. ['hubs:read']
+  resultBucket?: 'files' | 'folders' | 'hubs'; // Search total this tab's hit count adds to
 }
 
+/**
+ * A condition on one item field (see FilterCondition in @content-platform/data)
+ */
+export type ContentFilterCondition = FilterCondition;
+
+/**
+ * Filters combined with AND or OR; groups nest (see FilterGroup in @content-platform/data)
+ */
+export type ContentFilterGroup = FilterGroup;
+
 /**
  * Context provided by the content shell to tabs
  */
 export interface ContentContext {
   filters: {
     searchText: string;
-    active: Array<{ field: string; operator: string; value: any }>;
+    active: ContentFilterCondition[];
+    groups?: ContentFilterGroup[]; // AND/OR groups, combined with the other filters by AND
     dateRange?: { start: string; end: string };
     contentType?: string;
   };
@@ -40,6 +54,7 @@ export interface TabProps {
   context: ContentContext;
   onNavigate: (path: string) => void;
   onSelect: (ids: string[]) => void;
+  config?: Record<string, any>; // Tab-specific settings from the manifest entry
 }
 
 /**
@@ -51,6 +66,7 @@ export interface ActionDefinition {
   icon?: string;
   handler: (context: ContentContext) => void | Promise<void>;
   disabled?: (context: ContentContext) => boolean;
+  permissions?: string[]; // All required to run the action; shown disabled otherwise
 }
 
 /**
@@ -89,7 +105,9 @@ export interface TabPlugin {
   // Optional data integration
   dataSource?: DataSource;
 
-  // Optional Redux state
+  // Optional Redux state, injected as `${config.id}/${reducerKey}` and removed
+  // when the tab is unregistered. Read and dispatch it with useTabSelector and
+  // useTabDispatch from shared_data/store.
   reducerKey?: string;
   reducer?: Reducer;
 
@@ -107,14 +125,27 @@ export interface TabPlugin {
   contextRequirements?: Array<keyof ContentContext>;
 }
 
+/**
+ * Change notification emitted by a tab registry
+ */
+export interface TabRegistryEvent {
+  type: 'added' | 'removed' | 'replaced';
+  plugin: TabPlugin;
+  previous?: TabPlugin; // The replaced plugin, for 'replaced' events
+}
+
+export type TabRegistryListener = (event: TabRegistryEvent) => void;
+
 /**
  * Tab registry interface
  */
 export interface TabRegistry {
   register(plugin: TabPlugin): void;
   unregister(id: string): void;
+  replace(plugin: TabPlugin): void; // Swap in a reloaded plugin, keeping its position
   get(id: string): TabPlugin | undefined;
   getAll(): TabPlugin[];
+  subscribe(listener: TabRegistryListener): () => void;
 }
 
 /**
@@ -122,9 +153,25 @@ export interface TabRegistry {
  */
 export interface TabManifest {
   id: string;
+  remoteName?: string; // Module Federation container name (defaults to id)
   remoteEntry: string;
   module: string;
   enabled: boolean;
+  featureFlag?: string; // Only load and show the tab while this flag is enabled (dark launch)
   order: number;
   config?: Record<string, any>;
+  // What to do when componentVersion does not match the host's shared-components (default: 'warn')
+  onIncompatible?: 'block' | 'warn' | 'fallback';
+  // Alternative build to load when onIncompatible is 'fallback'
+  fallback?: Pick<TabManifest, 'remoteEntry' | 'module' | 'remoteName'>;
 }
+
+// Runtime implementations
+export { DefaultTabRegistry, validateTabPlugin } from './registry';
+export { satisfiesVersion, checkTabCompatibility, type TabCompatibility } from './compatibility';
+export {
+  CONTEXT_KEYS,
+  validateContextRequirements,
+  resolveTabContext,
+  type ContextRequirementIssue,
+} from './contextRequirements';
@@ -0,0 +1,180 @@
+import type { TabPlugin, TabRegistry, TabRegistryEvent, TabRegistryListener } from './index';
+import { validateContextRequirements } from './contextRequirements';
+
+const TAB_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const RESULT_BUCKETS = ['files', 'folders', 'hubs'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPermissionList = (value: unknown): boolean => Array.isArray(value) && value.every(isNonEmptyString);
+
+// Function components, classes, and exotic components (memo, lazy, forwardRef)
+const isComponent = (value: unknown): boolean =>
+  typeof value === 'function' ||
+  (typeof value === 'object' && value !== null && '$$typeof' in value);
+
+/**
+ * Validate a tab plugin against the contract
+ *
+ * Remotes are built independently, so the registry cannot rely on the
+ * compile-time TabPlugin type alone.
+ */
+export const validateTabPlugin = (plugin: unknown): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (typeof plugin !== 'object' || plugin === null) {
+    return { valid: false, errors: ['Plugin must be an object'] };
+  }
+
+  const candidate = plugin as Partial<TabPlugin>;
+  const config = candidate.config;
+
+  if (typeof config !== 'object' || config === null) {
+    errors.push('config is required');
+  } else {
+    if (!isNonEmptyString(config.id) || !TAB_ID_PATTERN.test(config.id)) {
+      errors.push('config.id must be lowercase, start with a letter, and contain only letters, numbers, and hyphens');
+    }
+    if (!isNonEmptyString(config.name)) {
+      errors.push('config.name is required');
+    }
+    if (!isNonEmptyString(config.version)) {
+      errors.push('config.version is required');
+    }
+    if (!isNonEmptyString(config.componentVersion)) {
+      errors.push('config.componentVersion is required');
+    }
+    if (config.permissions !== undefined && !isPermissionList(config.permissions)) {
+      errors.push('config.permissions must be an array of non-empty strings');
+    }
+    if (config.resultBucket !== undefined && !RESULT_BUCKETS.includes(config.resultBucket)) {
+      errors.push(`config.resultBucket must be one of: ${RESULT_BUCKETS.join(', ')}`);
+    }
+  }
+
+  if (!isComponent(candidate.component)) {
+    errors.push('component must be a React component');
+  }
+
+  if (Boolean(candidate.reducer) !== Boolean(candidate.reducerKey)) {
+    errors.push('reducer and reducerKey must be provided together');
+  }
+
+  if (candidate.reducer !== undefined && typeof candidate.reducer !== 'function') {
+    errors.push('reducer must be a function');
+  }
+
+  if (candidate.actions !== undefined) {
+    if (!Array.isArray(candidate.actions)) {
+      errors.push('actions must be an array');
+    } else {
+      candidate.actions.forEach((action, index) => {
+        if (!isNonEmptyString(action?.id) || !isNonEmptyString(action?.label)) {
+          errors.push(`actions[${index}] must have an id and a label`);
+        }
+        if (typeof action?.handler !== 'function') {
+          errors.push(`actions[${index}].handler must be a function`);
+        }
+        if (action?.permissions !== undefined && !isPermissionList(action.permissions)) {
+          errors.push(`actions[${index}].permissions must be an array of non-empty strings`);
+        }
+      });
+    }
+  }
+
+  (['onActivate', 'onDeactivate', 'getSearchHitCount'] as const).forEach(hook => {
+    if (candidate[hook] !== undefined && typeof candidate[hook] !== 'function') {
+      errors.push(`${hook} must be a function`);
+    }
+  });
+
+  errors.push(...validateContextRequirements(candidate.contextRequirements));
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * In-memory tab registry
+ *
+ * Keeps plugins in registration order and notifies subscribers when tabs are
+ * added or removed, so hosts can add and remove tabs while running.
+ */
+export class DefaultTabRegistry implements TabRegistry {
+  private plugins: Map<string, TabPlugin> = new Map();
+  private listeners: Set<TabRegistryListener> = new Set();
+  // Cached so getAll() returns a stable reference between changes
+  private snapshot: TabPlugin[] = [];
+
+  register(plugin: TabPlugin): void {
+    this.assertValid(plugin);
+
+    if (this.plugins.has(plugin.config.id)) {
+      throw new Error(`Tab with id "${plugin.config.id}" is already registered`);
+    }
+
+    this.plugins.set(plugin.config.id, plugin);
+    this.notify({ type: 'added', plugin });
+  }
+
+  unregister(id: string): void {
+    const plugin = this.plugins.get(id);
+    if (!plugin) {
+      console.warn(`Tab with id "${id}" is not registered.`);
+      return;
+    }
+
+    this.plugins.delete(id);
+    this.notify({ type: 'removed', plugin });
+  }
+
+  replace(plugin: TabPlugin): void {
+    this.assertValid(plugin);
+
+    const previous = this.plugins.get(plugin.config.id);
+    if (!previous) {
+      throw new Error(`Tab with id "${plugin.config.id}" is not registered`);
+    }
+
+    // Map.set on an existing key keeps the tab's position
+    this.plugins.set(plugin.config.id, plugin);
+    this.notify({ type: 'replaced', plugin, previous });
+  }
+
+  get(id: string): TabPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  getAll(): TabPlugin[] {
+    return this.snapshot;
+  }
+
+  subscribe(listener: TabRegistryListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private assertValid(plugin: TabPlugin): void {
+    const { valid, errors } = validateTabPlugin(plugin);
+    if (!valid) {
+      throw new Error(`Invalid tab plugin${plugin?.config?.id ? ` "${plugin.config.id}"` : ''}:\n  - ${errors.join('\n  - ')}`);
+    }
+  }
+
+  private notify(event: TabRegistryEvent): void {
+    this.snapshot = Array.from(this.plugins.values());
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in tab registry listener for ${event.type} "${event.plugin.config.id}":`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Compatibility Test
+ *
+ * satisfiesVersion and checkTabCompatibility from the tab contract.
+ */
+
+import { satisfiesVersion, checkTabCompatibility, type TabPlugin } from '@content-platform/tab-contract/src';
+
+describe('satisfiesVersion', () => {
+  it.each([
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '1.2.3', false],
+    ['1.5.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['3.1.4', '*', true],
+    ['3.1.4', '', true],
+    ['1.9.0', '^1.2.0', true],
+    ['2.0.0', '^1.2.0', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.3', '^0.0.3', true],
+    ['0.0.4', '^0.0.3', false],
+    ['1.4.9', '~1.4.2', true],
+    ['1.5.0', '~1.4.2', false],
+    ['1.9.0', '~1', true],
+    ['1.5.0', '>=1.2.0 <2.0.0', true],
+    ['2.0.0', '>=1.2.0 <2.0.0', false],
+    ['1.2.9', '>1.2', false],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '<=1.2', true],
+    ['1.3.0', '<=1.2', false],
+    ['1.5.0', '>= 1.2.0', true],
+    ['3.0.0', '^1.0.0 || ^3.0.0', true],
+    ['2.0.0', '^1.0.0 || ^3.0.0', false],
+    ['1.2.3-beta.1', '1.2.3', true],
+    ['v1.2.3', '^1.0.0', true],
+  ])('%s satisfies "%s": %s', (version, range, expected) => {
+    expect(satisfiesVersion(version, range)).toBe(expected);
+  });
+
+  it('should throw on versions that are not full versions', () => {
+    expect(() => satisfiesVersion('1.2', '^1.0.0')).toThrow('Invalid version "1.2"');
+    expect(() => satisfiesVersion('latest', '^1.0.0')).toThrow('Invalid version "latest"');
+  });
+
+  it('should throw on ranges that cannot be parsed', () => {
+    expect(() => satisfiesVersion('1.0.0', '^one')).toThrow('Invalid version range "^one"');
+  });
+});
+
+describe('checkTabCompatibility', () => {
+  const plugin = (componentVersion: string): TabPlugin => ({
+    config: { id: 'files', name: 'Files', version: '1.0.0', componentVersion },
+    component: () => null,
+  });
+
+  it('should report compatible tabs', () => {
+    expect(checkTabCompatibility(plugin('^1.0.0'), '1.4.0')).toEqual({
+      tabId: 'files',
+      declaredRange: '^1.0.0',
+      actualVersion: '1.4.0',
+      compatible: true,
+    });
+  });
+
+  it('should explain incompatible tabs', () => {
+    expect(checkTabCompatibility(plugin('^2.0.0'), '1.4.0')).toMatchObject({
+      compatible: false,
+      reason: 'requires shared-components ^2.0.0, host provides 1.4.0',
+    });
+  });
+
+  it('should treat an unknown host version as compatible', () => {
+    expect(checkTabCompatibility(plugin('^2.0.0'), null)).toMatchObject({
+      compatible: true,
+      reason: 'shared-components version unknown',
+    });
+  });
+
+  it('should report unparsable ranges as incompatible', () => {
+    expect(checkTabCompatibility(plugin('newest'), '1.4.0')).toMatchObject({
+      compatible: false,
+      reason: 'Invalid version range "newest"',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Context Requirements Test
+ *
+ * resolveTabContext and validateContextRequirements from the tab contract.
+ */
+
+import {
+  resolveTabContext,
+  validateContextRequirements,
+  type ContentContext,
+} from '@content-platform/tab-contract/src';
+
+const hostContext: ContentContext = {
+  filters: { searchText: 'report', active: [] },
+  selection: { selectedIds: ['file-1'] },
+  navigation: { currentPath: '/', breadcrumbs: [] },
+};
+
+describe('resolveTabContext', () => {
+  it('should pass on only the required slices', () => {
+    const { context, issues } = resolveTabContext(['filters', 'selection'], hostContext);
+
+    expect(issues).toEqual([]);
+    expect(context).toEqual({ filters: hostContext.filters, selection: hostContext.selection });
+    expect(context).not.toHaveProperty('navigation');
+  });
+
+  it('should return an empty context when nothing is required', () => {
+    expect(resolveTabContext([], hostContext)).toEqual({ context: {}, issues: [] });
+  });
+
+  it('should report missing slices', () => {
+    const { context, issues } = resolveTabContext(['filters', 'navigation'], { filters: hostContext.filters });
+
+    expect(context).toBeNull();
+    expect(issues).toEqual([{ key: 'navigation', problem: 'missing', message: 'Host does not provide "navigation"' }]);
+  });
+
+  it('should report malformed slices', () => {
+    const { context, issues } = resolveTabContext(['selection'], {
+      selection: { selectedIds: [1, 2] as any },
+    });
+
+    expect(context).toBeNull();
+    expect(issues).toEqual([
+      { key: 'selection', problem: 'invalid', message: 'selection.selectedIds must be an array of strings' },
+    ]);
+  });
+
+  it('should report unknown slices', () => {
+    const { issues } = resolveTabContext(['selections' as keyof ContentContext], hostContext);
+
+    expect(issues).toEqual([{ key: 'selections', problem: 'unknown', message: 'Unknown context slice "selections"' }]);
+  });
+});
+
+describe('validateContextRequirements', () => {
+  it('should accept missing and known requirements', () => {
+    expect(validateContextRequirements(undefined)).toEqual([]);
+    expect(validateContextRequirements(['filters', 'navigation'])).toEqual([]);
+  });
+
+  it('should reject non-arrays and unknown keys', () => {
+    expect(validateContextRequirements('filters')).toEqual(['contextRequirements must be an array']);
+    expect(validateContextRequirements(['filter'])).toEqual([
+      'contextRequirements contains unknown context slice "filter" (expected one of: filters, selection, navigation)',
+    ]);
+  });
+});
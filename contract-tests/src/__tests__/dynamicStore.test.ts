@@ -0,0 +1,123 @@
+/**
+ * Dynamic Store Test
+ *
+ * Reducer injection into the shared store and tab-scoped actions.
+ */
+
+import type { AnyAction, Reducer } from '@reduxjs/toolkit';
+import { createStore, setSearchText, type DynamicStore } from '@modular-platform/shared-data/src/store';
+
+const counter: Reducer<number> = (state = 0, action: AnyAction) => (action.type === 'counter/increment' ? state + 1 : state);
+
+const increment = (tabId?: string): AnyAction => ({ type: 'counter/increment', ...(tabId && { meta: { tabId } }) });
+
+describe('createStore', () => {
+  let store: DynamicStore;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    store = createStore({}, { undo: false });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('injectReducer', () => {
+    it('should add and remove a reducer', () => {
+      store.injectReducer('counter', counter);
+      store.dispatch(increment());
+      expect(store.getState().counter).toBe(1);
+
+      store.removeReducer('counter');
+      expect(store.getState().counter).toBeUndefined();
+    });
+
+    it('should reject the keys of the shared slices', () => {
+      expect(() => store.injectReducer('filters', counter)).toThrow('Reducer key "filters" is reserved for shared state.');
+    });
+
+    it('should reject a key injected by another owner', () => {
+      store.injectReducer('counter', counter, 'files');
+
+      expect(() => store.injectReducer('counter', counter, 'hubs')).toThrow(
+        'Reducer key "counter" is owned by "files", not "hubs".'
+      );
+      expect(() => store.injectReducer('counter', counter)).toThrow('is owned by "files", not "host"');
+      expect(store.reducerOwners.counter).toBe('files');
+    });
+
+    it('should let the owner replace its reducer', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      store.injectReducer('counter', counter, 'files');
+
+      store.injectReducer('counter', (state = 10) => state, 'files');
+
+      expect(store.getState().counter).toBe(0);
+      expect(warnSpy).toHaveBeenCalledWith('Reducer with key "counter" already exists. Replacing it.');
+    });
+  });
+
+  describe('tab reducers', () => {
+    it('should inject under the namespaced key, once', () => {
+      const key = store.injectTabReducer('files', 'items', counter);
+      store.dispatch(increment());
+
+      expect(key).toBe('files/items');
+      expect(store.injectTabReducer('files', 'items', counter)).toBe(key);
+      expect(store.getState()[key]).toBe(1);
+      expect(store.reducerOwners[key]).toBe('files');
+    });
+
+    it('should keep the same key apart for different tabs', () => {
+      store.injectTabReducer('files', 'items', counter);
+      store.injectTabReducer('hubs', 'items', counter);
+
+      expect(Object.keys(store.asyncReducers)).toEqual(['files/items', 'hubs/items']);
+    });
+
+    it('should remove only the tab\'s own reducers', () => {
+      store.injectTabReducer('files', 'items', counter);
+      store.injectTabReducer('files', 'view', counter);
+      store.injectTabReducer('hubs', 'items', counter);
+
+      store.removeTabReducers('files');
+
+      expect(Object.keys(store.asyncReducers)).toEqual(['hubs/items']);
+      expect(store.getState()['files/items']).toBeUndefined();
+    });
+  });
+
+  describe('scoped actions', () => {
+    it('should deliver a tab action to the owning tab\'s reducers only', () => {
+      store.injectTabReducer('files', 'items', counter);
+      store.injectTabReducer('hubs', 'items', counter);
+      store.injectReducer('counter', counter);
+
+      store.dispatch(increment('files'));
+
+      expect(store.getState()['files/items']).toBe(1);
+      expect(store.getState()['hubs/items']).toBe(0);
+      expect(store.getState().counter).toBe(0);
+    });
+
+    it('should not let tab actions change the shared slices', () => {
+      const state = store.getState();
+
+      store.dispatch({ ...setSearchText('report'), meta: { tabId: 'files' } });
+
+      expect(store.getState()).toBe(state);
+      expect(store.getState().filters.searchText).toBe('');
+    });
+
+    it('should deliver unscoped actions to every reducer', () => {
+      store.injectTabReducer('files', 'items', counter);
+      store.injectReducer('counter', counter);
+
+      store.dispatch(increment());
+
+      expect(store.getState()['files/items']).toBe(1);
+      expect(store.getState().counter).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Event History Test
+ *
+ * Sticky events for late subscribers and the replay buffer.
+ */
+
+import {
+  publishEvent,
+  subscribeToEvent,
+  getStickyEvent,
+  getEventHistory,
+  clearEventHistory,
+  setEventHistoryCapacity,
+  replayEvents,
+} from '@platform/context';
+
+const submitSearch = (query: string) => publishEvent('search:submitted', { query, timestamp: new Date() }, 'test');
+
+describe('Sticky events', () => {
+  afterEach(() => {
+    publishEvent('search:cleared', { timestamp: new Date() });
+    publishEvent('selection:cleared', { timestamp: new Date() });
+  });
+
+  it('should hand the last payload to late subscribers', () => {
+    submitSearch('first');
+    submitSearch('latest');
+
+    const handler = jest.fn();
+    const unsubscribe = subscribeToEvent('search:submitted', handler);
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ query: 'latest' });
+  });
+
+  it('should not replay when the subscriber opts out', () => {
+    submitSearch('report');
+
+    const handler = jest.fn();
+    subscribeToEvent('search:submitted', handler, { replaySticky: false })();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should forget the payload when a clearing event is published', () => {
+    publishEvent('selection:changed', { selectedIds: ['file-1'], timestamp: new Date() });
+    expect(getStickyEvent('selection:changed')).toMatchObject({ selectedIds: ['file-1'] });
+
+    publishEvent('selection:cleared', { timestamp: new Date() });
+
+    expect(getStickyEvent('selection:changed')).toBeUndefined();
+  });
+
+  it('should not retain non-sticky events', () => {
+    publishEvent('file:opened', { fileId: 'file-1', fileName: 'a.txt', timestamp: new Date() });
+
+    const handler = jest.fn();
+    subscribeToEvent('file:opened', handler)();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Replay buffer', () => {
+  beforeEach(() => {
+    setEventHistoryCapacity(200);
+    clearEventHistory();
+  });
+
+  it('should record delivered events oldest first', () => {
+    submitSearch('a');
+    publishEvent('search:cleared', { timestamp: new Date() }, 'shell');
+
+    expect(getEventHistory().map(record => [record.event, record.source])).toEqual([
+      ['search:submitted', 'test'],
+      ['search:cleared', 'shell'],
+    ]);
+  });
+
+  it('should keep only the newest records once full', () => {
+    setEventHistoryCapacity(2);
+
+    ['a', 'b', 'c'].forEach(submitSearch);
+
+    expect(getEventHistory().map(record => (record.data as { query: string }).query)).toEqual(['b', 'c']);
+  });
+
+  it('should keep the newest records when the capacity shrinks', () => {
+    ['a', 'b', 'c'].forEach(submitSearch);
+
+    setEventHistoryCapacity(1);
+
+    expect(getEventHistory().map(record => (record.data as { query: string }).query)).toEqual(['c']);
+  });
+
+  it('should publish recorded events again', () => {
+    submitSearch('a');
+    publishEvent('file:opened', { fileId: 'file-1', fileName: 'a.txt', timestamp: new Date() }, 'files_tab');
+
+    const handler = jest.fn();
+    const unsubscribe = subscribeToEvent('file:opened', handler);
+    replayEvents(record => record.event === 'file:opened');
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(getEventHistory().map(record => record.event)).toEqual(['search:submitted', 'file:opened', 'file:opened']);
+  });
+});
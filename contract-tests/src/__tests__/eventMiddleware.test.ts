@@ -0,0 +1,180 @@
+/**
+ * Event Middleware Test
+ *
+ * The event bus middleware pipeline and the built-in middleware.
+ */
+
+import {
+  publishEvent,
+  subscribeToEvent,
+  addEventMiddleware,
+  clearEventMiddleware,
+  createLoggingMiddleware,
+  createRedactionMiddleware,
+  createSamplingMiddleware,
+  createRateLimitMiddleware,
+  type EventLogEntry,
+} from '@platform/context';
+
+const notify = (message: string) =>
+  publishEvent('notification:show', { message, type: 'info', timestamp: new Date() }, 'test');
+
+describe('Event middleware pipeline', () => {
+  let received: string[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    received = [];
+    unsubscribe = subscribeToEvent('notification:show', data => received.push(data.message));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    clearEventMiddleware();
+  });
+
+  it('should run beforePublish in registration order and deliver the result', () => {
+    addEventMiddleware({
+      name: 'first',
+      beforePublish: context => ({ ...context, data: { ...context.data, message: `${(context.data as any).message}-a` } }),
+    });
+    addEventMiddleware({
+      name: 'second',
+      beforePublish: context => ({ ...context, data: { ...context.data, message: `${(context.data as any).message}-b` } }),
+    });
+
+    notify('hello');
+
+    expect(received).toEqual(['hello-a-b']);
+  });
+
+  it('should drop events when a middleware returns null', () => {
+    const afterPublish = jest.fn();
+    addEventMiddleware({ name: 'drop', beforePublish: () => null });
+    addEventMiddleware({ name: 'after', afterPublish });
+
+    notify('dropped');
+
+    expect(received).toEqual([]);
+    expect(afterPublish).not.toHaveBeenCalled();
+  });
+
+  it('should skip a throwing middleware', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    addEventMiddleware({
+      name: 'broken',
+      beforePublish: () => {
+        throw new Error('boom');
+      },
+    });
+
+    notify('still delivered');
+
+    expect(received).toEqual(['still delivered']);
+    expect(errorSpy).toHaveBeenCalledWith('[EventBus] Middleware "broken" failed in beforePublish:', expect.any(Error));
+    errorSpy.mockRestore();
+  });
+
+  it('should stop running removed middleware', () => {
+    const beforePublish = jest.fn();
+    const remove = addEventMiddleware({ name: 'spy', beforePublish });
+
+    notify('one');
+    remove();
+    notify('two');
+
+    expect(beforePublish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report the handler count to afterPublish', () => {
+    const afterPublish = jest.fn();
+    addEventMiddleware({ name: 'after', afterPublish });
+
+    notify('counted');
+
+    expect(afterPublish).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'notification:show', source: 'test' }),
+      expect.objectContaining({ handlerCount: 1, handlerDurationsMs: [expect.any(Number)] })
+    );
+  });
+});
+
+describe('Built-in middleware', () => {
+  afterEach(() => {
+    clearEventMiddleware();
+  });
+
+  it('should log the redacted payload while subscribers get the original', () => {
+    const entries: EventLogEntry[] = [];
+    const received: unknown[] = [];
+    const unsubscribe = subscribeToEvent('file:selected', data => received.push(data));
+    addEventMiddleware(createRedactionMiddleware());
+    addEventMiddleware(createLoggingMiddleware({ logger: entry => entries.push(entry) }));
+
+    const timestamp = new Date();
+    publishEvent('file:selected', { fileId: 'file-1', fileName: 'salaries.xlsx', timestamp }, 'files_tab');
+    unsubscribe();
+
+    expect(received).toEqual([{ fileId: 'file-1', fileName: 'salaries.xlsx', timestamp }]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      event: 'file:selected',
+      source: 'files_tab',
+      data: { fileId: 'file-1', fileName: '[REDACTED]', timestamp },
+    });
+  });
+
+  it('should redact nested and custom fields case-insensitively', () => {
+    const entries: EventLogEntry[] = [];
+    addEventMiddleware(createRedactionMiddleware({ fields: ['ITEMIDS'], replacement: '***' }));
+    addEventMiddleware(createLoggingMiddleware({ logger: entry => entries.push(entry) }));
+
+    publishEvent('bulk-action:triggered', { action: 'delete', itemIds: ['a'], timestamp: new Date() });
+
+    expect(entries[0].data).toMatchObject({ action: 'delete', itemIds: '***' });
+  });
+
+  it('should only log the configured events', () => {
+    const logger = jest.fn();
+    addEventMiddleware(createLoggingMiddleware({ logger, events: ['search:cleared'] }));
+
+    notify('ignored');
+    publishEvent('search:cleared', { timestamp: new Date() });
+
+    expect(logger).toHaveBeenCalledTimes(1);
+    expect(logger.mock.calls[0][0].event).toBe('search:cleared');
+  });
+
+  it('should sample only the configured events', () => {
+    const received: string[] = [];
+    const unsubscribe = subscribeToEvent('notification:show', data => received.push(data.message));
+    const values = [0.1, 0.9];
+    addEventMiddleware(createSamplingMiddleware({ rate: 0.5, events: ['notification:show'], random: () => values.shift()! }));
+
+    notify('kept');
+    notify('sampled out');
+    const afterPublish = jest.fn();
+    addEventMiddleware({ name: 'after', afterPublish });
+    publishEvent('search:cleared', { timestamp: new Date() });
+    unsubscribe();
+
+    expect(received).toEqual(['kept']);
+    expect(afterPublish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rate limit per event type within the window', () => {
+    const received: string[] = [];
+    const unsubscribe = subscribeToEvent('notification:show', data => received.push(data.message));
+    let time = 0;
+    addEventMiddleware(createRateLimitMiddleware({ 'notification:show': { max: 2, windowMs: 1000 } }, () => time));
+
+    notify('1');
+    notify('2');
+    notify('3');
+    time = 1000;
+    notify('4');
+    unsubscribe();
+
+    expect(received).toEqual(['1', '2', '4']);
+  });
+});
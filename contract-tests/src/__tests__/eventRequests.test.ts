@@ -0,0 +1,88 @@
+/**
+ * Event Requests Test
+ *
+ * request/respond on the platform event bus.
+ */
+
+import { request, respond, PlatformRequestError } from '@platform/context';
+
+describe('request/respond', () => {
+  const stops: Array<() => void> = [];
+
+  afterEach(() => {
+    stops.splice(0).forEach(stop => stop());
+    jest.useRealTimers();
+  });
+
+  it('should resolve with the responder answer', async () => {
+    stops.push(respond('hubs:resolve-names', ({ hubIds }) => Object.fromEntries(hubIds.map(id => [id, `Hub ${id}`]))));
+
+    await expect(request('hubs:resolve-names', { hubIds: ['h1', 'h2'] })).resolves.toEqual({
+      h1: 'Hub h1',
+      h2: 'Hub h2',
+    });
+  });
+
+  it('should support async responders', async () => {
+    stops.push(respond('files:get-metadata', async ({ fileIds }) => fileIds.map(id => ({ id, name: `${id}.txt` }))));
+
+    await expect(request('files:get-metadata', { fileIds: ['f1'] })).resolves.toEqual([{ id: 'f1', name: 'f1.txt' }]);
+  });
+
+  it('should reject without a responder', async () => {
+    await expect(request('hubs:resolve-names', { hubIds: [] })).rejects.toMatchObject({
+      name: 'PlatformRequestError',
+      code: 'NO_RESPONDER',
+      request: 'hubs:resolve-names',
+    });
+  });
+
+  it('should reject a second responder for the same request', () => {
+    stops.push(respond('hubs:resolve-names', () => ({})));
+
+    expect(() => respond('hubs:resolve-names', () => ({}))).toThrow(PlatformRequestError);
+  });
+
+  it('should allow a new responder once the previous one stopped', async () => {
+    respond('hubs:resolve-names', () => ({ h1: 'Old' }))();
+    stops.push(respond('hubs:resolve-names', () => ({ h1: 'New' })));
+
+    await expect(request('hubs:resolve-names', { hubIds: ['h1'] })).resolves.toEqual({ h1: 'New' });
+  });
+
+  it('should reject with the responder error', async () => {
+    stops.push(respond('hubs:resolve-names', () => {
+      throw new Error('index unavailable');
+    }));
+
+    await expect(request('hubs:resolve-names', { hubIds: ['h1'] })).rejects.toMatchObject({
+      code: 'RESPONDER_FAILED',
+      message: 'Responder for "hubs:resolve-names" failed: index unavailable',
+    });
+  });
+
+  it('should time out when the responder does not answer in time', async () => {
+    jest.useFakeTimers();
+    stops.push(respond('hubs:resolve-names', () => new Promise(() => {})));
+
+    const pending = request('hubs:resolve-names', { hubIds: ['h1'] }, { timeout: 100 });
+    jest.advanceTimersByTime(100);
+
+    await expect(pending).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      message: 'Request "hubs:resolve-names" timed out after 100ms',
+    });
+  });
+
+  it('should ignore answers that arrive after the timeout', async () => {
+    jest.useFakeTimers();
+    let answer: (names: Record<string, string>) => void = () => {};
+    stops.push(respond('hubs:resolve-names', () => new Promise(resolve => (answer = resolve))));
+
+    const pending = request('hubs:resolve-names', { hubIds: ['h1'] }, { timeout: 100 });
+    jest.advanceTimersByTime(100);
+    answer({ h1: 'Late' });
+
+    await expect(pending).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+});
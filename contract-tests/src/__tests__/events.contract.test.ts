@@ -0,0 +1,39 @@
+/**
+ * Event Contract Test
+ *
+ * Example of how tabs check that the events they publish match the platform
+ * event schemas. In a tab, drive the real tab module inside validatePublishedEvents.
+ */
+
+import { publishEvent } from '@platform/context';
+import { validateEventContract, validatePublishedEvents } from '../eventValidators';
+
+describe('Platform Event Contract Compliance', () => {
+  it('should pass for payloads matching the schema', () => {
+    const result = validateEventContract('search:submitted', { query: 'report', timestamp: new Date() });
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should reject a timestamp published as a string', () => {
+    const result = validateEventContract('selection:changed', {
+      selectedIds: ['file-1'],
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('data.timestamp must be a Date, got string');
+  });
+
+  it('should report invalid published events with their source', async () => {
+    const result = await validatePublishedEvents(() => {
+      publishEvent('tab:activated', { tabId: 'example-tab', timestamp: new Date() }, 'example_tab');
+      publishEvent('file:selected', { fileId: 'file-1', timestamp: new Date() } as any, 'example_tab');
+    });
+
+    expect(result.events.map(e => e.event)).toEqual(['tab:activated', 'file:selected']);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['file:selected (from example_tab): data.fileName is required']);
+  });
+});
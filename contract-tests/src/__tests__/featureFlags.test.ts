@@ -0,0 +1,135 @@
+/**
+ * Feature Flags Test
+ *
+ * The feature flag service and its providers.
+ */
+
+import {
+  createFeatureFlagService,
+  createStaticFlagProvider,
+  createFlagFileProvider,
+  type FeatureFlagProvider,
+} from '@platform/context';
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('createFeatureFlagService', () => {
+  beforeEach(() => {
+    (globalThis as any).window = { localStorage: createMemoryStorage() };
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  it('should apply defaults, then providers in order', async () => {
+    const service = createFeatureFlagService({
+      defaults: { 'reports-v2': false, 'upload-v2': true },
+      providers: [
+        createStaticFlagProvider({ 'reports-v2': true, 'hubs-beta': true }),
+        createStaticFlagProvider({ 'hubs-beta': false }),
+      ],
+    });
+
+    await service.ready;
+
+    expect(service.getFlags()).toEqual({ 'reports-v2': true, 'upload-v2': true, 'hubs-beta': false });
+    expect(service.isEnabled('reports-v2')).toBe(true);
+    expect(service.isEnabled('hubs-beta')).toBe(false);
+    expect(service.isEnabled('unknown')).toBe(false);
+  });
+
+  it('should skip a failing provider', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing: FeatureFlagProvider = {
+      name: 'broken',
+      load: async () => {
+        throw new Error('unreachable');
+      },
+    };
+
+    const service = createFeatureFlagService({ providers: [failing, createStaticFlagProvider({ beta: true })] });
+    await service.ready;
+
+    expect(service.getFlags()).toEqual({ beta: true });
+    expect(errorSpy).toHaveBeenCalledWith('[FeatureFlags] Failed to load flags from broken:', expect.any(Error));
+    errorSpy.mockRestore();
+  });
+
+  it('should let user overrides win and persist them per user', async () => {
+    const service = createFeatureFlagService({ userId: 'user-1', providers: [createStaticFlagProvider({ beta: false })] });
+    await service.ready;
+
+    service.setOverride('beta', true);
+    expect(service.isEnabled('beta')).toBe(true);
+
+    const reloaded = createFeatureFlagService({ userId: 'user-1', providers: [createStaticFlagProvider({ beta: false })] });
+    await reloaded.ready;
+    expect(reloaded.isEnabled('beta')).toBe(true);
+
+    const otherUser = createFeatureFlagService({ userId: 'user-2', providers: [createStaticFlagProvider({ beta: false })] });
+    await otherUser.ready;
+    expect(otherUser.isEnabled('beta')).toBe(false);
+
+    reloaded.setOverride('beta', undefined);
+    expect(reloaded.isEnabled('beta')).toBe(false);
+  });
+
+  it('should notify subscribers and keep getFlags stable between changes', async () => {
+    const service = createFeatureFlagService();
+    await service.ready;
+    const listener = jest.fn();
+    const unsubscribe = service.subscribe(listener);
+    const before = service.getFlags();
+
+    expect(service.getFlags()).toBe(before);
+
+    service.setOverride('beta', true);
+    unsubscribe();
+    service.setOverride('beta', false);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(service.getFlags()).not.toBe(before);
+  });
+
+  it('should reload providers on refresh', async () => {
+    let flags = { beta: false };
+    const service = createFeatureFlagService({ providers: [{ name: 'dynamic', load: () => flags }] });
+    await service.ready;
+
+    flags = { beta: true };
+    await service.refresh();
+
+    expect(service.isEnabled('beta')).toBe(true);
+  });
+});
+
+describe('createFlagFileProvider', () => {
+  const fetchSpy = jest.spyOn(globalThis, 'fetch');
+
+  afterAll(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should apply the per-user section of the flag file', async () => {
+    const file = { flags: { 'reports-v2': false, beta: true }, users: { 'user-1': { 'reports-v2': true } } };
+    fetchSpy.mockImplementation(async () => new Response(JSON.stringify(file)));
+    const provider = createFlagFileProvider('/feature-flags.json');
+
+    await expect(provider.load('user-1')).resolves.toEqual({ 'reports-v2': true, beta: true });
+    await expect(provider.load('user-2')).resolves.toEqual({ 'reports-v2': false, beta: true });
+    expect(fetchSpy).toHaveBeenCalledWith('/feature-flags.json');
+  });
+
+  it('should reject on HTTP errors', async () => {
+    fetchSpy.mockResolvedValue(new Response('', { status: 404 }));
+
+    await expect(createFlagFileProvider('/missing.json').load()).rejects.toThrow('HTTP 404');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Filter Adapters Test
+ *
+ * Round trips between the store's FilterValue and PlatformContext's Filter.
+ */
+
+import type { Filter } from '@platform/context';
+import {
+  toFilterValue,
+  toContextFilter,
+  toFilterValues,
+  toContextFilters,
+} from '@modular-platform/shared-data/src/store/filterAdapters';
+import type { FilterValue } from '@modular-platform/shared-data/src/store/slices/filtersSlice';
+
+describe('filterAdapters', () => {
+  describe('FilterValue -> Filter -> FilterValue', () => {
+    it.each<[string, FilterValue]>([
+      ['equality', { field: 'owner', operator: 'equals', value: 'user-1', type: 'owner', label: 'Owner' }],
+      ['another operator', { field: 'name', operator: 'contains', value: 'report', type: 'text', label: 'Name' }],
+      ['a range', { field: 'size', operator: 'between', value: [10, 20], type: 'number', label: 'Size' }],
+      ['negation', { field: 'type', operator: 'equals', value: 'pdf', type: 'type', label: 'Type', negate: true }],
+      [
+        'a raw object with an operator key',
+        { field: 'meta', operator: 'equals', value: { operator: 'equals', value: 'x' }, type: 'meta', label: 'Meta' },
+      ],
+      [
+        'a raw object that looks encoded',
+        { field: 'meta', operator: 'equals', value: { '@@filterValue': true, operator: 'gt', value: 1 }, type: 'meta', label: 'Meta' },
+      ],
+      ['null', { field: 'folder', operator: 'equals', value: null, type: 'folder', label: 'Folder' }],
+    ])('should keep %s', (_name, filterValue) => {
+      expect(toFilterValue(toContextFilter(filterValue))).toEqual(filterValue);
+    });
+
+    it('should default the type and label to the field', () => {
+      expect(toFilterValue(toContextFilter({ field: 'owner', operator: 'equals', value: 'user-1' }))).toEqual({
+        field: 'owner',
+        operator: 'equals',
+        value: 'user-1',
+        type: 'owner',
+        label: 'owner',
+      });
+    });
+  });
+
+  describe('Filter -> FilterValue -> Filter', () => {
+    it.each<[string, unknown]>([
+      ['a string', 'pdf'],
+      ['a number', 42],
+      ['a date range', { start: '2024-01-01', end: '2024-02-01' }],
+      ['a raw object with an operator key', { operator: 'equals', value: 'x' }],
+      ['a raw object with a non-equality operator', { operator: 'gt', value: 3, negate: true }],
+      ['an array', ['a', 'b']],
+    ])('should keep %s', (_name, value) => {
+      const filter: Filter = { id: 'field', type: 'custom', label: 'Field', value };
+
+      expect(toContextFilter(toFilterValue(filter))).toEqual(filter);
+    });
+
+    it('should keep encoded operators and negation', () => {
+      const filter = toContextFilter({ field: 'name', operator: 'startsWith', value: 'Q', type: 'text', label: 'Name', negate: true });
+
+      expect(toContextFilter(toFilterValue(filter))).toEqual(filter);
+    });
+  });
+
+  it('should only decode tagged values', () => {
+    expect(toFilterValue({ id: 'meta', type: 'meta', label: 'Meta', value: { operator: 'contains', value: 'x' } })).toMatchObject({
+      operator: 'equals',
+      value: { operator: 'contains', value: 'x' },
+    });
+  });
+
+  it('should convert lists', () => {
+    const filterValues: FilterValue[] = [
+      { field: 'owner', operator: 'equals', value: 'user-1', type: 'owner', label: 'Owner' },
+      { field: 'size', operator: 'gt', value: 100, type: 'number', label: 'Size' },
+    ];
+
+    expect(toFilterValues(toContextFilters(filterValues))).toEqual(filterValues);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Filter Engine Test
+ *
+ * Compiling the shared filter state, matching items against it and splitting
+ * it into the GraphQL input.
+ */
+
+import {
+  compileFilters,
+  toPredicate,
+  createFilterPredicate,
+  splitContentQuery,
+  type FilterCondition,
+  type FilterExpression,
+  type FilterGroup,
+} from '@content-platform/data/src/filterEngine';
+
+const items = [
+  { id: 'f1', name: 'Budget 2024.xlsx', type: 'file', ownerId: 'user-1', size: 1200, updatedAt: '2024-01-16', mimeType: 'application/vnd.ms-excel', tags: ['finance'], owner: { name: 'Jane' } },
+  { id: 'f2', name: 'Design Specs.pdf', type: 'file', ownerId: 'user-2', size: 3100, updatedAt: '2024-02-15', mimeType: 'application/pdf', tags: ['design'], owner: { name: 'Bob' } },
+  { id: 'd1', name: 'Reports', type: 'folder', ownerId: 'user-1', size: 0, updatedAt: '2024-03-01', tags: [], owner: { name: 'Jane' } },
+];
+
+const matching = (expression: FilterExpression) => items.filter(toPredicate(expression)).map(item => item.id);
+
+describe('toPredicate', () => {
+  it.each<[string, FilterExpression, string[]]>([
+    ['equals', { field: 'ownerId', operator: 'equals', value: 'user-1' }, ['f1', 'd1']],
+    ['equals on an array field', { field: 'tags', operator: 'equals', value: 'design' }, ['f2']],
+    ['equals across types', { field: 'size', operator: 'equals', value: '3100' }, ['f2']],
+    ['contains, ignoring case', { field: 'name', operator: 'contains', value: 'SPECS' }, ['f2']],
+    ['startsWith', { field: 'name', operator: 'startsWith', value: 'bud' }, ['f1']],
+    ['endsWith', { field: 'name', operator: 'endsWith', value: '.PDF' }, ['f2']],
+    ['gt on numbers', { field: 'size', operator: 'gt', value: 1000 }, ['f1', 'f2']],
+    ['lt on dates', { field: 'updatedAt', operator: 'lt', value: '2024-02-01' }, ['f1']],
+    ['between, inclusive', { field: 'updatedAt', operator: 'between', value: ['2024-02-15', '2024-03-01'] }, ['f2', 'd1']],
+    ['between with an open end', { field: 'size', operator: 'between', value: [null, 1200] }, ['f1', 'd1']],
+    ['a dotted field', { field: 'owner.name', operator: 'equals', value: 'Bob' }, ['f2']],
+    ['a missing field', { field: 'mimeType', operator: 'contains', value: 'pdf' }, ['f2']],
+    ['a negated condition', { field: 'type', operator: 'equals', value: 'folder', negate: true }, ['f1', 'f2']],
+  ])('should match %s', (_name, expression, expected) => {
+    expect(matching(expression)).toEqual(expected);
+  });
+
+  it('should combine groups with AND and OR', () => {
+    expect(
+      matching({
+        combinator: 'and',
+        filters: [
+          { field: 'type', operator: 'equals', value: 'file' },
+          {
+            combinator: 'or',
+            filters: [
+              { field: 'ownerId', operator: 'equals', value: 'user-1' },
+              { field: 'size', operator: 'gt', value: 3000 },
+            ],
+          },
+        ],
+      })
+    ).toEqual(['f1', 'f2']);
+  });
+
+  it('should negate a group', () => {
+    const group: FilterExpression = {
+      combinator: 'or',
+      negate: true,
+      filters: [
+        { field: 'type', operator: 'equals', value: 'folder' },
+        { field: 'ownerId', operator: 'equals', value: 'user-2' },
+      ],
+    };
+
+    expect(matching(group)).toEqual(['f1']);
+  });
+
+  it('should match everything with empty groups', () => {
+    expect(matching({ combinator: 'and', filters: [] })).toEqual(['f1', 'f2', 'd1']);
+    expect(matching({ combinator: 'or', filters: [] })).toEqual(['f1', 'f2', 'd1']);
+    expect(matching({ combinator: 'or', filters: [], negate: true })).toEqual([]);
+  });
+
+  it('should reject unknown operators at compile time', () => {
+    // @ts-expect-error 'matches' is not a FilterOperator
+    const condition: FilterCondition = { field: 'name', operator: 'matches', value: 'x' };
+
+    expect(condition.operator).toBe('matches');
+  });
+
+  it('should ignore unknown operators from untyped input with a warning', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const condition = JSON.parse('{ "field": "name", "operator": "matches", "value": "x" }') as FilterCondition;
+
+    expect(matching(condition)).toEqual(['f1', 'f2', 'd1']);
+    expect(warnSpy).toHaveBeenCalledWith('[FilterEngine] Ignoring filter on "name" with unknown operator "matches"');
+    warnSpy.mockRestore();
+  });
+});
+
+describe('compileFilters', () => {
+  it('should compile the filter state into one AND group', () => {
+    const group: FilterGroup = { combinator: 'or', filters: [{ field: 'type', operator: 'equals', value: 'folder' }] };
+    const active: FilterCondition[] = [{ field: 'ownerId', operator: 'equals', value: 'user-1' }];
+
+    expect(
+      compileFilters({
+        searchText: '  budget ',
+        contentType: 'pdf',
+        dateRange: { start: '2024-01-01', end: '2024-02-01' },
+        active,
+        groups: [group],
+      })
+    ).toEqual({
+      combinator: 'and',
+      filters: [
+        { field: 'name', operator: 'contains', value: 'budget' },
+        { field: 'mimeType', operator: 'contains', value: 'pdf' },
+        { field: 'updatedAt', operator: 'between', value: ['2024-01-01', '2024-02-01'] },
+        ...active,
+        group,
+      ],
+    });
+  });
+
+  it('should match searchText against any of the search fields', () => {
+    const predicate = createFilterPredicate<(typeof items)[number]>({ searchText: 'jane' }, { searchFields: ['name', 'owner.name'] });
+
+    expect(items.filter(predicate).map(item => item.id)).toEqual(['f1', 'd1']);
+  });
+
+  it('should match contentType against part of the MIME type, as the server does', () => {
+    expect(items.filter(createFilterPredicate({ contentType: 'pdf' })).map(item => item.id)).toEqual(['f2']);
+  });
+
+  it('should apply dateRange to the configured field', () => {
+    expect(compileFilters({ dateRange: { start: 'a', end: 'b' } }, { dateField: 'createdAt' }).filters).toEqual([
+      { field: 'createdAt', operator: 'between', value: ['a', 'b'] },
+    ]);
+  });
+
+  it('should compile empty state into an empty group', () => {
+    expect(compileFilters({ searchText: '   ' })).toEqual({ combinator: 'and', filters: [] });
+  });
+});
+
+describe('splitContentQuery', () => {
+  const owner: FilterCondition = { field: 'ownerId', operator: 'equals', value: 'user-1' };
+
+  it.each<[string, FilterExpression, Record<string, string>]>([
+    ['a required owner', compileFilters({ active: [owner], contentType: 'pdf' }), { ownerId: 'user-1' }],
+    ['an owner in a nested AND group', { combinator: 'and', filters: [{ combinator: 'and', filters: [owner] }] }, { ownerId: 'user-1' }],
+    ['an owner in an OR group', { combinator: 'and', filters: [{ combinator: 'or', filters: [owner] }] }, {}],
+    ['a negated owner', { combinator: 'and', filters: [{ ...owner, negate: true }] }, {}],
+    ['an owner in a negated group', { combinator: 'and', negate: true, filters: [owner] }, {}],
+    ['type and date conditions', compileFilters({ contentType: 'pdf', dateRange: { start: 'a', end: 'b' } }), {}],
+  ])('should send only what the server applies: %s', (_name, expression, input) => {
+    expect(splitContentQuery(expression).input).toEqual(input);
+  });
+
+  it('should keep the whole expression in the residual', () => {
+    const expression = compileFilters({ searchText: 'budget', contentType: 'excel', active: [owner] });
+
+    expect(splitContentQuery(expression).residual).toBe(expression);
+  });
+
+  it('should give the same results as the full expression when the server applies the input', () => {
+    const expressions: FilterExpression[] = [
+      compileFilters({ active: [owner], contentType: 'pdf' }),
+      compileFilters({ active: [owner], dateRange: { start: '2024-01-01', end: '2024-01-31' } }),
+      { combinator: 'and', filters: [{ combinator: 'or', filters: [owner, { field: 'size', operator: 'gt', value: 3000 }] }] },
+      compileFilters({ active: [{ ...owner, negate: true }] }),
+    ];
+
+    expressions.forEach(expression => {
+      const { input, residual } = splitContentQuery(expression);
+      const fromServer = items.filter(item => !input.ownerId || item.ownerId === input.ownerId);
+
+      expect(fromServer.filter(toPredicate(residual))).toEqual(items.filter(toPredicate(expression)));
+    });
+  });
+});
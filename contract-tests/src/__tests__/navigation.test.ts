@@ -0,0 +1,220 @@
+/**
+ * Navigation Test
+ *
+ * The navigation slice's history stacks and their sync with window.history.
+ * Runs in node, so the browser history tests install a window mock.
+ */
+
+import { combineReducers, configureStore, type AnyAction } from '@reduxjs/toolkit';
+import navigationReducer, {
+  navigate,
+  setActiveTab,
+  goBack,
+  goForward,
+  syncNavigation,
+  replaceEntry,
+  selectCanGoBack,
+  selectCanGoForward,
+  type NavigationEntry,
+  type NavigationState,
+} from '@modular-platform/shared-data/src/store/slices/navigationSlice';
+import { syncNavigationWithBrowser } from '@modular-platform/shared-data/src/store/browserHistory';
+
+const run = (...actions: AnyAction[]): NavigationState =>
+  actions.reduce(navigationReducer, navigationReducer(undefined, { type: '@@INIT' }));
+
+const entries = (state: NavigationState) => state.history.map(({ tab, path }) => `${tab}:${path}`);
+
+describe('navigationSlice', () => {
+  it('should push entries and clear the forward stack', () => {
+    const state = run(navigate('/docs'), goBack(), navigate('/reports'));
+
+    expect(entries(state)).toEqual(['content:/', 'content:/reports']);
+    expect(state.forward).toEqual([]);
+    expect(state.currentPath).toBe('/reports');
+  });
+
+  it('should not push the current entry again', () => {
+    expect(run(navigate('/docs'), navigate('/docs')).history).toHaveLength(2);
+  });
+
+  it('should move between the stacks with goBack and goForward', () => {
+    const back = run(navigate('/docs'), setActiveTab('hubs'), goBack());
+
+    expect(back.activeTab).toBe('content');
+    expect(back.currentPath).toBe('/docs');
+    expect(selectCanGoForward({ navigation: back })).toBe(true);
+
+    const forward = navigationReducer(back, goForward());
+    expect(forward.activeTab).toBe('hubs');
+    expect(selectCanGoForward({ navigation: forward })).toBe(false);
+  });
+
+  it('should not go back past the first entry', () => {
+    const state = run(goBack());
+
+    expect(entries(state)).toEqual(['content:/']);
+    expect(selectCanGoBack({ navigation: state })).toBe(false);
+  });
+
+  it('should return to the path last visited in a tab', () => {
+    const state = run(navigate('/docs'), setActiveTab('hubs'), setActiveTab('content'));
+
+    expect(state.history[state.history.length - 1]).toEqual({ tab: 'content', path: '/docs' });
+  });
+
+  it('should keep the last 50 entries', () => {
+    const state = run(...Array.from({ length: 60 }, (_, i) => navigate(`/${i}`)));
+
+    expect(state.history).toHaveLength(50);
+    expect(state.history[0].path).toBe('/10');
+  });
+
+  it('should replace the current entry without adding history', () => {
+    const state = run(navigate('/docs'), replaceEntry({ tab: 'hubs', path: '/' }));
+
+    expect(entries(state)).toEqual(['content:/', 'hubs:/']);
+    expect(state.activeTab).toBe('hubs');
+  });
+
+  describe('syncNavigation', () => {
+    it('should step back and forward to adjacent entries', () => {
+      const visited = run(navigate('/a'), navigate('/b'));
+
+      const back = navigationReducer(visited, syncNavigation({ tab: 'content', path: '/a' }));
+      expect(entries(back)).toEqual(['content:/', 'content:/a']);
+      expect(back.forward).toEqual([{ tab: 'content', path: '/b' }]);
+
+      const forward = navigationReducer(back, syncNavigation({ tab: 'content', path: '/b' }));
+      expect(forward).toEqual(visited);
+    });
+
+    it('should ignore the current entry', () => {
+      const state = run(navigate('/a'));
+
+      expect(navigationReducer(state, syncNavigation({ tab: 'content', path: '/a' }))).toBe(state);
+    });
+
+    it('should replace the current entry with an unknown one and keep the forward stack', () => {
+      const state = run(navigate('/a'), navigate('/b'), goBack(), syncNavigation({ tab: 'content', path: '/trimmed' }));
+
+      expect(entries(state)).toEqual(['content:/', 'content:/trimmed']);
+      expect(state.forward).toEqual([{ tab: 'content', path: '/b' }]);
+    });
+
+    it('should follow the browser back past the trimmed history and forward again', () => {
+      const paths = Array.from({ length: 60 }, (_, i) => `/${i}`);
+      let state = run(...paths.map(path => navigate(path)));
+
+      // Browser back through every entry, including those the store no longer has
+      paths.slice(0, -1).reverse().forEach(path => {
+        state = navigationReducer(state, syncNavigation({ tab: 'content', path }));
+      });
+      expect(state.currentPath).toBe('/0');
+
+      paths.slice(1).forEach(path => {
+        state = navigationReducer(state, syncNavigation({ tab: 'content', path }));
+        expect(state.currentPath).toBe(path);
+      });
+      expect(state.forward).toEqual([]);
+    });
+  });
+});
+
+describe('syncNavigationWithBrowser', () => {
+  const toUrl = ({ tab, path }: NavigationEntry) => `https://platform.test/?tab=${tab}&path=${encodeURIComponent(path)}`;
+  const fromUrl = (location: Location): NavigationEntry => {
+    const params = new URLSearchParams(location.search);
+    return { tab: params.get('tab') || 'content', path: params.get('path') || '/' };
+  };
+
+  const installWindow = (href: string) => {
+    const location = new URL(href);
+    const listeners: Array<() => void> = [];
+    const history = {
+      back: jest.fn(),
+      forward: jest.fn(),
+      pushState: jest.fn((_state: unknown, _title: string, url: string) => {
+        location.href = url;
+      }),
+      replaceState: jest.fn((_state: unknown, _title: string, url: string) => {
+        location.href = url;
+      }),
+    };
+    (globalThis as any).window = {
+      location,
+      history,
+      addEventListener: (_type: string, listener: () => void) => listeners.push(listener),
+      removeEventListener: (_type: string, listener: () => void) => listeners.splice(listeners.indexOf(listener), 1),
+    };
+
+    const popTo = (url: string) => {
+      location.href = url;
+      listeners.forEach(listener => listener());
+    };
+    return { history, listeners, popTo };
+  };
+
+  const createStore = () => configureStore({ reducer: combineReducers({ navigation: navigationReducer }) });
+
+  afterEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  it('should open the entry for the page URL without adding history', () => {
+    const { history } = installWindow('https://platform.test/?tab=hubs&path=%2Fteam');
+    const store = createStore();
+
+    syncNavigationWithBrowser(store, { toUrl, fromUrl });
+
+    expect(store.getState().navigation.history).toEqual([{ tab: 'hubs', path: '/team' }]);
+    expect(history.pushState).not.toHaveBeenCalled();
+    expect(history.replaceState).not.toHaveBeenCalled();
+  });
+
+  it('should push navigation and delegate goBack/goForward to the browser', () => {
+    const { history } = installWindow('https://platform.test/');
+    const store = createStore();
+    syncNavigationWithBrowser(store, { toUrl, fromUrl });
+
+    store.dispatch(navigate('/docs'));
+    expect(history.pushState).toHaveBeenCalledWith(null, '', toUrl({ tab: 'content', path: '/docs' }));
+
+    store.dispatch(goBack());
+    expect(history.back).toHaveBeenCalledTimes(1);
+
+    store.dispatch(goForward());
+    expect(history.forward).toHaveBeenCalledTimes(1);
+
+    store.dispatch(replaceEntry({ tab: 'hubs', path: '/' }));
+    expect(history.replaceState).toHaveBeenCalledWith(null, '', toUrl({ tab: 'hubs', path: '/' }));
+  });
+
+  it('should follow popstate without writing it back', () => {
+    const { history, popTo } = installWindow('https://platform.test/');
+    const store = createStore();
+    syncNavigationWithBrowser(store, { toUrl, fromUrl });
+    store.dispatch(navigate('/docs'));
+    history.pushState.mockClear();
+
+    popTo(toUrl({ tab: 'content', path: '/' }));
+
+    expect(store.getState().navigation.currentPath).toBe('/');
+    expect(store.getState().navigation.forward).toEqual([{ tab: 'content', path: '/docs' }]);
+    expect(history.back).not.toHaveBeenCalled();
+    expect(history.pushState).not.toHaveBeenCalled();
+    expect(history.replaceState).not.toHaveBeenCalled();
+  });
+
+  it('should stop syncing when unsubscribed', () => {
+    const { history, listeners } = installWindow('https://platform.test/');
+    const store = createStore();
+    const stop = syncNavigationWithBrowser(store, { toUrl, fromUrl });
+
+    stop();
+    store.dispatch(navigate('/docs'));
+
+    expect(listeners).toHaveLength(0);
+    expect(history.pushState).not.toHaveBeenCalled();
+  });
+});
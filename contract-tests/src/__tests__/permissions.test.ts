@@ -0,0 +1,40 @@
+/**
+ * Permissions Test
+ *
+ * hasPermission and its wildcard grants.
+ */
+
+import { hasPermission } from '@platform/context';
+
+describe('hasPermission', () => {
+  it.each([
+    [['files:read'], 'files:read', true],
+    [['files:read'], 'files:delete', false],
+    [['files:*'], 'files:delete', true],
+    [['files:*'], 'hubs:read', false],
+    [['files:*'], 'files', false],
+    [['files:*'], 'files:share:external', true],
+    [['*'], 'reports:read', true],
+    [['*'], 'admin', true],
+    [['*:read'], 'hubs:read', true],
+    [['*:read'], 'hubs:write', false],
+    [['*:read'], 'hubs:read:archived', false],
+    [['files:*:read'], 'files:shared:read', true],
+    [['files:*:read'], 'files:read', false],
+    [['files'], 'files:read', false],
+    [['files:read:all'], 'files:read', false],
+  ])('%j grants "%s": %s', (granted, required, expected) => {
+    expect(hasPermission(granted, required)).toBe(expected);
+  });
+
+  it('should require every permission in a list', () => {
+    expect(hasPermission(['files:read', 'files:share'], ['files:read', 'files:share'])).toBe(true);
+    expect(hasPermission(['files:read'], ['files:read', 'files:share'])).toBe(false);
+  });
+
+  it('should satisfy empty and missing requirements', () => {
+    expect(hasPermission([], undefined)).toBe(true);
+    expect(hasPermission([], [])).toBe(true);
+    expect(hasPermission([], 'files:read')).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Persistence Test
+ *
+ * Serialization and the URL/storage persistence adapters for PlatformProvider.
+ * Runs in node, so each test installs the window pieces the adapter reads.
+ */
+
+import {
+  serializeFilters,
+  deserializeFilters,
+  createUrlPersistence,
+  createSessionStoragePersistence,
+  createLocalStoragePersistence,
+  loadPersistedState,
+  type Filter,
+  type PersistenceAdapter,
+} from '@platform/context';
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => Array.from(items.keys())[index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+  };
+};
+
+const installWindow = (window: Record<string, unknown>) => {
+  (globalThis as any).window = window;
+};
+
+afterEach(() => {
+  delete (globalThis as any).window;
+});
+
+describe('Filter serialization', () => {
+  it('should round-trip filters, including Date values', () => {
+    const filters: Filter[] = [
+      { id: 'owner', type: 'owner', label: 'Owner', value: 'user-1' },
+      { id: 'updated', type: 'date', label: 'Updated', value: { from: new Date('2024-01-01T00:00:00.000Z') } },
+    ];
+
+    const restored = deserializeFilters(serializeFilters(filters));
+
+    expect(restored).toEqual(filters);
+    expect((restored![1].value as { from: Date }).from).toBeInstanceOf(Date);
+  });
+
+  it('should reject malformed input', () => {
+    expect(deserializeFilters('{not json')).toBeUndefined();
+    expect(deserializeFilters('{"id":"owner"}')).toBeUndefined();
+  });
+
+  it('should drop entries that are not filters', () => {
+    expect(deserializeFilters('[{"id":"owner","type":"owner","label":"Owner","value":1},{"id":2},null]')).toEqual([
+      { id: 'owner', type: 'owner', label: 'Owner', value: 1 },
+    ]);
+  });
+});
+
+describe('createUrlPersistence', () => {
+  const installLocation = (href: string) => {
+    const location = new URL(href);
+    const replaceState = jest.fn((_state: unknown, _title: string, url: string) => {
+      location.href = url;
+    });
+    installWindow({ location, history: { state: null, replaceState } });
+    return { location, replaceState };
+  };
+
+  it('should save to and load from the query string', () => {
+    const { location, replaceState } = installLocation('https://platform.test/?tab=files');
+    const adapter = createUrlPersistence();
+    const state = {
+      query: 'report',
+      filters: [{ id: 'type', type: 'type', label: 'Type', value: 'pdf' }],
+      path: [{ id: 'docs', label: 'Docs', path: '/docs' }],
+    };
+
+    adapter.save(state);
+
+    expect(replaceState).toHaveBeenCalledTimes(1);
+    expect(location.searchParams.get('tab')).toBe('files');
+    expect(location.searchParams.get('q')).toBe('report');
+    expect(adapter.load()).toEqual(state);
+  });
+
+  it('should remove empty values and not touch history when nothing changed', () => {
+    const { location, replaceState } = installLocation('https://platform.test/?q=report&filters=%5B%5D');
+    const adapter = createUrlPersistence({ fields: ['query'] });
+
+    adapter.save({ query: 'report', filters: [] });
+    expect(replaceState).not.toHaveBeenCalled();
+
+    adapter.save({ query: '' });
+    expect(location.search).toBe('?filters=%5B%5D');
+  });
+
+  it('should use custom parameter names', () => {
+    installLocation('https://platform.test/?search=budget');
+
+    expect(createUrlPersistence({ params: { query: 'search' } }).load()).toEqual({ query: 'budget' });
+  });
+});
+
+describe('Storage persistence', () => {
+  it('should round-trip state through sessionStorage', () => {
+    const sessionStorage = createMemoryStorage();
+    installWindow({ sessionStorage });
+    const adapter = createSessionStoragePersistence('state');
+    const state = {
+      query: 'report',
+      filters: [{ id: 'updated', type: 'date', label: 'Updated', value: new Date('2024-02-01T00:00:00.000Z') }],
+      path: [{ id: 'docs', label: 'Docs', path: '/docs', onClick: () => {} }],
+    };
+
+    adapter.save(state);
+
+    expect(adapter.load()).toEqual({ ...state, path: [{ id: 'docs', label: 'Docs', path: '/docs' }] });
+  });
+
+  it('should only persist the configured fields', () => {
+    const localStorage = createMemoryStorage();
+    installWindow({ localStorage });
+    const adapter = createLocalStoragePersistence('state', { fields: ['query'] });
+
+    adapter.save({ query: 'report', path: [{ id: 'docs', label: 'Docs' }] });
+
+    expect(JSON.parse(localStorage.getItem('state')!)).toEqual({ query: 'report' });
+    expect(adapter.load()).toEqual({ query: 'report' });
+  });
+
+  it('should ignore malformed and inaccessible storage', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const localStorage = createMemoryStorage();
+    localStorage.setItem('state', '{broken');
+    installWindow({ localStorage, sessionStorage: { getItem: () => { throw new Error('blocked'); } } });
+
+    expect(createLocalStoragePersistence('state').load()).toEqual({});
+    expect(createSessionStoragePersistence('state').load()).toEqual({});
+    expect(warnSpy).toHaveBeenCalledTimes(2);
+    warnSpy.mockRestore();
+  });
+});
+
+describe('loadPersistedState', () => {
+  const adapter = (name: string, state: object, fields: PersistenceAdapter['fields'] = ['query', 'filters', 'path']) => ({
+    name,
+    fields,
+    load: () => state,
+    save: () => {},
+  });
+
+  it('should take each field from the first adapter that has it', () => {
+    const state = loadPersistedState([
+      adapter('url', { query: 'from url' }),
+      adapter('storage', { query: 'from storage', path: [{ id: 'docs', label: 'Docs' }] }),
+    ]);
+
+    expect(state).toEqual({ query: 'from url', path: [{ id: 'docs', label: 'Docs' }] });
+  });
+
+  it('should ignore fields an adapter does not own and adapters that throw', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken: PersistenceAdapter = {
+      ...adapter('broken', {}),
+      load: () => {
+        throw new Error('boom');
+      },
+    };
+
+    const state = loadPersistedState([broken, adapter('url', { query: 'report', path: [] }, ['query'])]);
+
+    expect(state).toEqual({ query: 'report' });
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
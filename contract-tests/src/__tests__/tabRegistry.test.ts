@@ -0,0 +1,137 @@
+/**
+ * Tab Registry Test
+ *
+ * DefaultTabRegistry and validateTabPlugin from the tab contract.
+ */
+
+import { DefaultTabRegistry, validateTabPlugin, type TabPlugin } from '@content-platform/tab-contract/src';
+
+const createPlugin = (id: string, overrides: Partial<TabPlugin> = {}): TabPlugin => ({
+  config: { id, name: id, version: '1.0.0', componentVersion: '^1.0.0' },
+  component: () => null,
+  ...overrides,
+});
+
+describe('validateTabPlugin', () => {
+  it('should accept a minimal plugin', () => {
+    expect(validateTabPlugin(createPlugin('files'))).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should reject non-objects', () => {
+    expect(validateTabPlugin(null)).toEqual({ valid: false, errors: ['Plugin must be an object'] });
+  });
+
+  it('should report every contract violation', () => {
+    const result = validateTabPlugin({
+      config: { id: 'Files', name: '', version: '1.0.0', componentVersion: '1.0.0' },
+      component: 'not a component',
+      reducerKey: 'items',
+      actions: [{ id: 'open', label: 'Open' }],
+      contextRequirements: ['selections'],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'config.id must be lowercase, start with a letter, and contain only letters, numbers, and hyphens',
+      'config.name is required',
+      'component must be a React component',
+      'reducer and reducerKey must be provided together',
+      'actions[0].handler must be a function',
+      'contextRequirements contains unknown context slice "selections" (expected one of: filters, selection, navigation)',
+    ]);
+  });
+
+  it('should accept exotic components such as memo and lazy', () => {
+    const plugin = { ...createPlugin('files'), component: { $$typeof: Symbol.for('react.memo') } };
+
+    expect(validateTabPlugin(plugin).valid).toBe(true);
+  });
+});
+
+describe('DefaultTabRegistry', () => {
+  let registry: DefaultTabRegistry;
+
+  beforeEach(() => {
+    registry = new DefaultTabRegistry();
+  });
+
+  it('should keep plugins in registration order', () => {
+    registry.register(createPlugin('files'));
+    registry.register(createPlugin('hubs'));
+
+    expect(registry.getAll().map(plugin => plugin.config.id)).toEqual(['files', 'hubs']);
+    expect(registry.get('hubs')?.config.id).toBe('hubs');
+  });
+
+  it('should reject duplicate ids and invalid plugins', () => {
+    registry.register(createPlugin('files'));
+
+    expect(() => registry.register(createPlugin('files'))).toThrow('Tab with id "files" is already registered');
+    expect(() => registry.register(createPlugin('Bad Id'))).toThrow('Invalid tab plugin "Bad Id"');
+  });
+
+  it('should return a stable snapshot between changes', () => {
+    registry.register(createPlugin('files'));
+    const snapshot = registry.getAll();
+
+    expect(registry.getAll()).toBe(snapshot);
+
+    registry.register(createPlugin('hubs'));
+    expect(registry.getAll()).not.toBe(snapshot);
+  });
+
+  it('should replace a plugin in place', () => {
+    const original = createPlugin('files');
+    const reloaded = createPlugin('files', { config: { ...original.config, version: '1.1.0' } });
+    registry.register(original);
+    registry.register(createPlugin('hubs'));
+
+    registry.replace(reloaded);
+
+    expect(registry.getAll()).toEqual([reloaded, registry.get('hubs')]);
+    expect(() => registry.replace(createPlugin('reports'))).toThrow('Tab with id "reports" is not registered');
+  });
+
+  it('should notify subscribers until they unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = registry.subscribe(listener);
+    const files = createPlugin('files');
+    const reloaded = createPlugin('files');
+
+    registry.register(files);
+    registry.replace(reloaded);
+    registry.unregister('files');
+    unsubscribe();
+    registry.register(createPlugin('hubs'));
+
+    expect(listener.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'added', plugin: files },
+      { type: 'replaced', plugin: reloaded, previous: files },
+      { type: 'removed', plugin: reloaded },
+    ]);
+  });
+
+  it('should keep notifying when a listener throws', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = jest.fn();
+    registry.subscribe(() => {
+      throw new Error('boom');
+    });
+    registry.subscribe(listener);
+
+    registry.register(createPlugin('files'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should warn when unregistering an unknown tab', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    registry.unregister('missing');
+
+    expect(warnSpy).toHaveBeenCalledWith('Tab with id "missing" is not registered.');
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Undo History Test
+ *
+ * withUndoHistory over the shared slices: grouping, depth and ignored actions.
+ */
+
+import { combineReducers, type AnyAction, type Reducer } from '@reduxjs/toolkit';
+import filtersReducer, { setSearchText, updateResults } from '@modular-platform/shared-data/src/store/slices/filtersSlice';
+import selectionReducer, { selectItem, restoreSelection } from '@modular-platform/shared-data/src/store/slices/selectionSlice';
+import navigationReducer, { navigate, setActiveTab } from '@modular-platform/shared-data/src/store/slices/navigationSlice';
+import {
+  undoHistoryReducer,
+  withUndoHistory,
+  undo,
+  redo,
+  clearUndoHistory,
+  selectCanUndo,
+  selectCanRedo,
+  DEFAULT_UNDO_CONFIG,
+  type UndoHistoryConfig,
+} from '@modular-platform/shared-data/src/store/undoHistory';
+
+const rootReducer = combineReducers({
+  filters: filtersReducer,
+  selection: selectionReducer,
+  navigation: navigationReducer,
+  undoHistory: undoHistoryReducer,
+});
+
+type State = ReturnType<typeof rootReducer>;
+
+let now = 0;
+
+const run = (config: UndoHistoryConfig | undefined, ...actions: AnyAction[]) => {
+  const reducer = withUndoHistory(rootReducer as Reducer<State>, config);
+  return actions.reduce(reducer, reducer(undefined, { type: '@@INIT' }));
+};
+
+/** Dispatch one action per step, each `stepMs` after the previous one */
+const runSpaced = (config: UndoHistoryConfig | undefined, stepMs: number, ...actions: AnyAction[]) => {
+  const reducer = withUndoHistory(rootReducer as Reducer<State>, config);
+  return actions.reduce((state, action) => {
+    now += stepMs;
+    return reducer(state, action);
+  }, reducer(undefined, { type: '@@INIT' }));
+};
+
+beforeEach(() => {
+  now = 1_000_000;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('withUndoHistory', () => {
+  it('should not record the initial state', () => {
+    const state = run(DEFAULT_UNDO_CONFIG);
+
+    expect(selectCanUndo(state)).toBe(false);
+    expect(selectCanRedo(state)).toBe(false);
+  });
+
+  it('should undo and redo a change', () => {
+    const changed = runSpaced(DEFAULT_UNDO_CONFIG, 1000, selectItem('file-1'), selectItem('file-2'));
+    const reducer = withUndoHistory(rootReducer as Reducer<State>);
+
+    const undone = reducer(changed, undo());
+    expect(undone.selection.selectedIds).toEqual(['file-1']);
+    expect(selectCanRedo(undone)).toBe(true);
+
+    const redone = reducer(undone, redo());
+    expect(redone.selection.selectedIds).toEqual(['file-1', 'file-2']);
+    expect(selectCanRedo(redone)).toBe(false);
+  });
+
+  it('should drop the redo stack on a new change', () => {
+    const reducer = withUndoHistory(rootReducer as Reducer<State>);
+    const undone = reducer(runSpaced(DEFAULT_UNDO_CONFIG, 1000, selectItem('file-1'), selectItem('file-2')), undo());
+
+    now += 1000;
+    const state = reducer(undone, selectItem('file-3'));
+
+    expect(selectCanRedo(state)).toBe(false);
+    expect(state.undoHistory.past).toHaveLength(2);
+  });
+
+  it('should group changes to the same slices within the window', () => {
+    const state = runSpaced(DEFAULT_UNDO_CONFIG, 100, setSearchText('r'), setSearchText('re'), setSearchText('rep'));
+
+    expect(state.undoHistory.past).toHaveLength(1);
+    expect(withUndoHistory(rootReducer as Reducer<State>)(state, undo()).filters.searchText).toBe('');
+  });
+
+  it('should extend the window from the latest change of a burst', () => {
+    const state = runSpaced(DEFAULT_UNDO_CONFIG, 400, setSearchText('r'), setSearchText('re'), setSearchText('rep'));
+
+    expect(state.undoHistory.past).toHaveLength(1);
+  });
+
+  it('should not group changes to different slices or past the window', () => {
+    expect(runSpaced(DEFAULT_UNDO_CONFIG, 100, setSearchText('r'), selectItem('file-1')).undoHistory.past).toHaveLength(2);
+    expect(runSpaced(DEFAULT_UNDO_CONFIG, 600, setSearchText('r'), setSearchText('re')).undoHistory.past).toHaveLength(2);
+    expect(
+      runSpaced({ ...DEFAULT_UNDO_CONFIG, groupWindowMs: 0 }, 1, setSearchText('r'), setSearchText('re')).undoHistory.past
+    ).toHaveLength(2);
+  });
+
+  it('should keep at most maxDepth entries', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    const state = runSpaced({ ...DEFAULT_UNDO_CONFIG, maxDepth: 3 }, 1000, ...ids.map(id => selectItem(id)));
+
+    expect(state.undoHistory.past).toHaveLength(3);
+    expect(state.undoHistory.past[0].slices.selection).toMatchObject({ selectedIds: ['a', 'b'] });
+  });
+
+  it('should not record ignored actions per slice', () => {
+    const state = run(
+      DEFAULT_UNDO_CONFIG,
+      updateResults({ files: 3, total: 3 }),
+      setActiveTab('hubs'),
+      restoreSelection(['file-1']),
+    );
+
+    expect(state.filters.results.files).toBe(3);
+    expect(state.selection.selectedIds).toEqual(['file-1']);
+    expect(state.navigation.activeTab).toBe('hubs');
+    expect(selectCanUndo(state)).toBe(false);
+    expect(selectCanUndo(run(DEFAULT_UNDO_CONFIG, navigate('/docs')))).toBe(true);
+  });
+
+  it('should only track the configured slices', () => {
+    const state = run({ slices: { filters: true } }, selectItem('file-1'), navigate('/docs'));
+
+    expect(selectCanUndo(state)).toBe(false);
+    expect(selectCanUndo(run({ slices: { filters: true } }, setSearchText('report')))).toBe(true);
+  });
+
+  it('should clear both stacks', () => {
+    const reducer = withUndoHistory(rootReducer as Reducer<State>);
+    const undone = reducer(runSpaced(DEFAULT_UNDO_CONFIG, 1000, selectItem('a'), selectItem('b')), undo());
+
+    const cleared = reducer(undone, clearUndoHistory());
+
+    expect(selectCanUndo(cleared)).toBe(false);
+    expect(selectCanRedo(cleared)).toBe(false);
+    expect(cleared.selection.selectedIds).toEqual(['a']);
+  });
+
+  it('should ignore undo and redo with empty stacks', () => {
+    const state = run(DEFAULT_UNDO_CONFIG);
+    const reducer = withUndoHistory(rootReducer as Reducer<State>);
+
+    expect(reducer(state, undo())).toBe(state);
+    expect(reducer(state, redo())).toBe(state);
+  });
+});
@@ -0,0 +1,61 @@
+import { addEventMiddleware, validateEventPayload, type PlatformEventName } from '@platform/context';
+
+/**
+ * Event Contract Validators
+ *
+ * Check that a tab publishes only events whose payloads match the JSON
+ * Schemas generated from the platform's PlatformEvents type.
+ */
+
+/**
+ * An event published while the contract check ran
+ */
+export interface PublishedEvent {
+  event: PlatformEventName;
+  source: string;
+  data: unknown;
+  errors: string[];
+}
+
+/**
+ * Validate a single event payload
+ *
+ * @returns Validation result with errors if any
+ */
+export const validateEventContract = (
+  event: PlatformEventName,
+  data: unknown
+): { valid: boolean; errors: string[] } => validateEventPayload(event, data);
+
+/**
+ * Validate every event published while `run` executes
+ *
+ * Events are still delivered, so `run` can drive the tab as usual (render it,
+ * call its lifecycle hooks, trigger its actions).
+ *
+ * @returns Validation result, with every published event for further assertions
+ */
+export const validatePublishedEvents = async (
+  run: () => void | Promise<void>
+): Promise<{ valid: boolean; errors: string[]; events: PublishedEvent[] }> => {
+  const events: PublishedEvent[] = [];
+
+  const removeMiddleware = addEventMiddleware({
+    name: 'contract-tests',
+    beforePublish: ({ event, source, data }) => {
+      events.push({ event, source, data, errors: validateEventPayload(event, data).errors });
+    },
+  });
+
+  try {
+    await run();
+  } finally {
+    removeMiddleware();
+  }
+
+  const errors = events.flatMap(({ event, source, errors: eventErrors }) =>
+    eventErrors.map(error => `${event} (from ${source}): ${error}`)
+  );
+
+  return { valid: errors.length === 0, errors, events };
+};
@@ -21,3 +21,9 @@ export {
   formatValidationErrors,
   TabModuleSchema,
 } from './validators';
+
+export {
+  validateEventContract,
+  validatePublishedEvents,
+  type PublishedEvent,
+} from './eventValidators';
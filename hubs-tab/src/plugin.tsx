@@ -1,5 +1,6 @@
 import React, { Suspense, lazy, useState, useEffect } from 'react';
 import type { TabPlugin, TabProps } from './tab-contract';
+import { createHubsDataSource, createFilterPredicate } from '@content-platform/data';
 
 // Lazy load shared components
 const Table = lazy(() => import('shared_components/Table').then(m => ({ default: m.Table })));
@@ -62,6 +63,24 @@ const mockHubs: Hub[] = [
   },
 ];
 
+// Search matches hub names and descriptions
+const HUB_SEARCH = { searchFields: ['name', 'description'] };
+
+// GraphQL-backed data source, shared by the tab and the shell's prefetch
+const hubsDataSource = createHubsDataSource(undefined, HUB_SEARCH);
+
+// GraphQL hubs have a member count but no visibility; they are listed as public
+const toHub = (item: Record<string, any>): Hub => ({
+  id: item.id,
+  name: item.name,
+  type: 'hub',
+  description: item.description ?? '',
+  members: item.memberCount ?? item.members ?? 0,
+  visibility: item.visibility === 'private' ? 'private' : 'public',
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt,
+});
+
 // Tab component implementation
 const HubsTabComponent: React.FC<TabProps> = ({ context, onNavigate, onSelect }) => {
   const [hubs, setHubs] = useState<Hub[]>(mockHubs);
@@ -69,18 +88,27 @@ const HubsTabComponent: React.FC<TabProps> = ({ context, onNavigate, onSelect })
   const [newHubName, setNewHubName] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
+  // The shell rebuilds context on every render, so compare filters by value
+  const filtersKey = JSON.stringify(context.filters);
+
   // React to context changes (filters)
   useEffect(() => {
-    if (context.filters.searchText) {
-      const filtered = mockHubs.filter(h =>
-        h.name.toLowerCase().includes(context.filters.searchText.toLowerCase()) ||
-        h.description.toLowerCase().includes(context.filters.searchText.toLowerCase())
-      );
-      setHubs(filtered);
-    } else {
-      setHubs(mockHubs);
-    }
-  }, [context.filters.searchText]);
+    let cancelled = false;
+    hubsDataSource.fetch(context.filters)
+      .then(items => {
+        if (!cancelled) setHubs(items.map(toHub));
+      })
+      .catch(error => {
+        // Fall back to the demo data when the GraphQL server is unavailable
+        console.warn('[HubsTab] Data source unavailable, using demo data:', error);
+        if (!cancelled) {
+          setHubs(mockHubs.filter(createFilterPredicate<Hub>({ searchText: context.filters.searchText }, HUB_SEARCH)));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filtersKey]);
 
   // Sync with platform selection
   useEffect(() => {
@@ -408,10 +436,15 @@ const HubsTabPlugin: TabPlugin = {
     version: '1.0.0',
     componentVersion: '^1.0.0', // Compatible with shared-components v1.x
     description: 'Manage and browse team hubs',
+    permissions: ['hubs:read'],
+    resultBucket: 'hubs',
   },
 
   component: HubsTabComponent,
 
+  // Data source for hubs (GraphQL)
+  dataSource: hubsDataSource,
+
   // Actions this tab provides
   actions: [
     {
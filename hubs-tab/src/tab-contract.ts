@@ -1,7 +1,11 @@
 // In a real scenario, this would be: import { TabPlugin } from '@content-platform/tab-contract'
-// For this PoC, we copy the types to simulate an external team consuming the contract
+// For this PoC, we copy the types to simulate an external team consuming the contract.
+// The filter types come from @content-platform/data, whose filter engine defines them.
 
 import { ComponentType } from 'react';
+import type { FilterCondition as ContentFilterCondition, FilterGroup as ContentFilterGroup } from '@content-platform/data';
+
+export type { ContentFilterCondition, ContentFilterGroup };
 
 export interface TabConfig {
   id: string;
@@ -10,12 +14,16 @@ export interface TabConfig {
   version: string;
   componentVersion: string;
   description?: string;
+  permissions?: string[];
+  resultBucket?: 'files' | 'folders' | 'hubs'; // Search total this tab's hit count adds to
 }
 
+
 export interface ContentContext {
   filters: {
     searchText: string;
-    active: Array<{ field: string; operator: string; value: any }>;
+    active: ContentFilterCondition[];
+    groups?: ContentFilterGroup[]; // AND/OR groups, combined with the other filters by AND
     dateRange?: { start: string; end: string };
     contentType?: string;
   };
@@ -41,6 +49,7 @@ export interface ActionDefinition {
   icon?: string;
   handler: (context: ContentContext) => void | Promise<void>;
   disabled?: (context: ContentContext) => boolean;
+  permissions?: string[];
 }
 
 export interface TabPlugin {
@@ -1,4 +1,6 @@
 import mitt, { Emitter } from 'mitt';
+import { runBeforePublish, runAfterPublish } from './middleware';
+import { recordEvent, getStickyEvent } from './history';
 
 /**
  * Platform-wide event types for cross-MFE communication
@@ -10,8 +12,8 @@ import mitt, { Emitter } from 'mitt';
  */
 export type PlatformEvents = {
   // Tab lifecycle
-  'tab:activated': { tabId: string; timestamp: Date };
-  'tab:deactivated': { tabId: string; timestamp: Date };
+  'tab:activated': { tabId: string; timestamp: Date; durationMs?: number };
+  'tab:deactivated': { tabId: string; timestamp: Date; durationMs?: number };
 
   // Search events
   'search:submitted': { query: string; timestamp: Date };
@@ -24,6 +26,7 @@ export type PlatformEvents = {
       hubs: number;
       total: number;
     };
+    byTab?: Record<string, number>; // Hit count per tab id
   };
 
   // Filter events
@@ -60,6 +63,13 @@ export type PlatformEvents = {
   // Notification events
   'notification:show': { message: string; type: 'success' | 'error' | 'warning' | 'info'; timestamp: Date };
   'notification:hide': { timestamp: Date };
+
+  // Request/response transport (see requests.ts)
+  'request:sent': { requestId: string; name: string; payload: unknown; timestamp: Date };
+  'request:responded': { requestId: string; name: string; response?: unknown; error?: string; timestamp: Date };
+
+  // Raw events from the legacy shared-data bus (see LegacyEventBus.ts)
+  'legacy:emitted': { event: string; source: string; timestamp: number; data: unknown };
 };
 
 export interface Filter {
@@ -69,30 +79,80 @@ export interface Filter {
   value: unknown;
 }
 
+// Key for the bus on globalThis, so every copy of this module shares one bus
+const EVENT_BUS_KEY = '__PLATFORM_EVENT_BUS__';
+
+type GlobalWithEventBus = typeof globalThis & { [EVENT_BUS_KEY]?: Emitter<PlatformEvents> };
+
 /**
  * Singleton event bus for the platform
  * Uses mitt for lightweight pub/sub pattern
+ *
+ * @platform/context is shared as a Module Federation singleton; the bus is
+ * also kept on globalThis so a remote that bundles its own copy of this
+ * package still talks to the same bus.
  */
-export const eventBus: Emitter<PlatformEvents> = mitt<PlatformEvents>();
+export const eventBus: Emitter<PlatformEvents> =
+  (globalThis as GlobalWithEventBus)[EVENT_BUS_KEY] ??
+  ((globalThis as GlobalWithEventBus)[EVENT_BUS_KEY] = mitt<PlatformEvents>());
 
 /**
  * Type-safe event publishing
  *
+ * The event passes through the middleware pipeline (see middleware.ts), which
+ * may transform or drop it. Nothing is logged unless logging middleware is added.
+ *
+ * @param source - Name of the publishing MFE, shown in logs and devtools
+ *
  * @example
- * publishEvent('file:selected', { fileId: '123', fileName: 'doc.pdf', timestamp: new Date() });
+ * publishEvent('file:selected', { fileId: '123', fileName: 'doc.pdf', timestamp: new Date() }, 'files_tab');
  */
 export const publishEvent = <K extends keyof PlatformEvents>(
   event: K,
-  data: PlatformEvents[K]
+  data: PlatformEvents[K],
+  source = 'unknown'
 ) => {
-  console.log(`[EventBus] Publishing: ${event}`, data);
-  eventBus.emit(event, data);
+  const context = runBeforePublish({ event, data, source, timestamp: Date.now() });
+  if (!context) {
+    return; // Dropped by middleware
+  }
+
+  // Handlers are called here rather than through eventBus.emit so each one can be
+  // timed and a throwing handler cannot stop the others
+  const handlers = [...(eventBus.all.get(context.event) || [])];
+  const wildcardHandlers = [...(eventBus.all.get('*') || [])];
+  const handlerDurationsMs: number[] = [];
+  const start = performance.now();
+
+  const invoke = (call: () => void) => {
+    const handlerStart = performance.now();
+    try {
+      call();
+    } catch (error) {
+      console.error(`[EventBus] Error in handler for ${context.event}:`, error);
+    }
+    handlerDurationsMs.push(performance.now() - handlerStart);
+  };
+
+  handlers.forEach(handler => invoke(() => (handler as (data: unknown) => void)(context.data)));
+  wildcardHandlers.forEach(handler => invoke(() => (handler as (type: string, data: unknown) => void)(context.event, context.data)));
+
+  const result = {
+    handlerCount: handlers.length + wildcardHandlers.length,
+    durationMs: performance.now() - start,
+    handlerDurationsMs,
+  };
+  recordEvent(context, result);
+  runAfterPublish(context, result);
 };
 
 /**
  * Type-safe event subscription
  * Returns unsubscribe function
  *
+ * For sticky events (see history.ts) the handler is called immediately with
+ * the last payload, unless `replaySticky` is false.
+ *
  * @example
  * const unsubscribe = subscribeToEvent('file:selected', (data) => {
  *   console.log('File selected:', data.fileId);
@@ -103,14 +163,22 @@ export const publishEvent = <K extends keyof PlatformEvents>(
  */
 export const subscribeToEvent = <K extends keyof PlatformEvents>(
   event: K,
-  handler: (data: PlatformEvents[K]) => void
+  handler: (data: PlatformEvents[K]) => void,
+  options: { replaySticky?: boolean } = {}
 ): (() => void) => {
-  console.log(`[EventBus] Subscribing to: ${event}`);
   eventBus.on(event, handler);
 
+  const sticky = options.replaySticky === false ? undefined : getStickyEvent(event);
+  if (sticky !== undefined) {
+    try {
+      handler(sticky);
+    } catch (error) {
+      console.error(`[EventBus] Error replaying sticky ${event}:`, error);
+    }
+  }
+
   // Return unsubscribe function
   return () => {
-    console.log(`[EventBus] Unsubscribing from: ${event}`);
     eventBus.off(event, handler);
   };
 };
@@ -150,6 +218,5 @@ export const subscribeToMultiple = (
  * Use with caution - typically only for cleanup during unmount
  */
 export const clearAllListeners = () => {
-  console.log('[EventBus] Clearing all listeners');
   eventBus.all.clear();
 };
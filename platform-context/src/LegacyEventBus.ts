@@ -0,0 +1,174 @@
+import { publishEvent, subscribeToEvent, type PlatformEvents, type Filter } from './EventBus';
+
+/**
+ * Compatibility adapter for the legacy shared-data event bus
+ *
+ * Tabs written against the old `PlatformEvent` enum keep working during the
+ * migration: their events are carried over the typed platform bus and
+ * translated both ways.
+ * - Legacy emit: delivered unchanged to legacy handlers, and published as the
+ *   equivalent typed event for tabs using publishEvent/subscribeToEvent
+ * - Typed publish: delivered to legacy handlers of the equivalent enum event
+ *
+ * @deprecated Use publishEvent() and subscribeToEvent() instead
+ */
+
+export enum PlatformEvent {
+  FILTER_CHANGED = 'platform:filter:changed',
+  SELECTION_CHANGED = 'platform:selection:changed',
+  NAVIGATION = 'platform:navigation',
+  ACTION_EXECUTED = 'platform:action:executed',
+  TAB_ACTIVATED = 'platform:tab:activated',
+  TAB_DEACTIVATED = 'platform:tab:deactivated',
+}
+
+export interface EventPayload<T = any> {
+  source: string;
+  timestamp: number;
+  data: T;
+}
+
+type EventHandler<T = any> = (payload: EventPayload<T>) => void;
+
+type TypedEvent = { [K in keyof PlatformEvents]: [K, PlatformEvents[K]] }[keyof PlatformEvents];
+
+// Typed events published by the adapter itself; legacy handlers already received the original
+const bridgedFromLegacy = new WeakSet<object>();
+
+const toFilters = (data: Record<string, unknown>): Filter[] =>
+  Object.entries(data).map(([type, value]) => ({ id: type, type, label: type, value }));
+
+/**
+ * Legacy event data -> equivalent typed event (null when there is none)
+ */
+const toTypedEvent: Record<PlatformEvent, (data: any, timestamp: Date) => TypedEvent | null> = {
+  [PlatformEvent.FILTER_CHANGED]: (data = {}, timestamp) => {
+    if (Array.isArray(data.filters)) {
+      return ['filter:changed', { filters: data.filters, timestamp }];
+    }
+    if ('searchText' in data) {
+      return data.searchText
+        ? ['search:submitted', { query: String(data.searchText), timestamp }]
+        : ['search:cleared', { timestamp }];
+    }
+    return Object.keys(data).length === 0
+      ? ['filter:cleared-all', { timestamp }]
+      : ['filter:changed', { filters: toFilters(data), timestamp }];
+  },
+  [PlatformEvent.SELECTION_CHANGED]: (data = {}, timestamp) => {
+    const selectedIds = Array.isArray(data.selectedIds) ? data.selectedIds : data.id ? [data.id] : [];
+    return selectedIds.length > 0
+      ? ['selection:changed', { selectedIds, timestamp }]
+      : ['selection:cleared', { timestamp }];
+  },
+  [PlatformEvent.NAVIGATION]: (data = {}, timestamp) =>
+    data.path ? ['navigation:folder-opened', { folderId: data.folderId ?? data.path, path: data.path, timestamp }] : null,
+  [PlatformEvent.ACTION_EXECUTED]: (data = {}, timestamp) =>
+    data.action ? ['bulk-action:completed', { action: data.action, itemIds: data.itemIds ?? [], timestamp }] : null,
+  [PlatformEvent.TAB_ACTIVATED]: (data = {}, timestamp) => {
+    const tabId = data.tabId ?? data.tab;
+    return tabId ? ['tab:activated', { tabId, timestamp }] : null;
+  },
+  [PlatformEvent.TAB_DEACTIVATED]: (data = {}, timestamp) => {
+    const tabId = data.tabId ?? data.tab;
+    return tabId ? ['tab:deactivated', { tabId, timestamp }] : null;
+  },
+};
+
+/**
+ * Typed event -> legacy enum event and data
+ */
+const fromTypedEvent: { [K in keyof PlatformEvents]?: { event: PlatformEvent; toData: (data: PlatformEvents[K]) => unknown } } = {
+  'filter:changed': { event: PlatformEvent.FILTER_CHANGED, toData: ({ filters }) => ({ filters }) },
+  'filter:cleared-all': { event: PlatformEvent.FILTER_CHANGED, toData: () => ({}) },
+  'search:submitted': { event: PlatformEvent.FILTER_CHANGED, toData: ({ query }) => ({ searchText: query }) },
+  'search:cleared': { event: PlatformEvent.FILTER_CHANGED, toData: () => ({ searchText: '' }) },
+  'selection:changed': { event: PlatformEvent.SELECTION_CHANGED, toData: ({ selectedIds }) => ({ selectedIds }) },
+  'selection:cleared': { event: PlatformEvent.SELECTION_CHANGED, toData: () => ({ selectedIds: [] }) },
+  'navigation:folder-opened': { event: PlatformEvent.NAVIGATION, toData: ({ folderId, path }) => ({ folderId, path }) },
+  'bulk-action:completed': { event: PlatformEvent.ACTION_EXECUTED, toData: ({ action, itemIds }) => ({ action, itemIds }) },
+  'tab:activated': { event: PlatformEvent.TAB_ACTIVATED, toData: ({ tabId }) => ({ tab: tabId, tabId }) },
+  'tab:deactivated': { event: PlatformEvent.TAB_DEACTIVATED, toData: ({ tabId }) => ({ tab: tabId, tabId }) },
+};
+
+const typedEventsFor = (event: PlatformEvent) =>
+  (Object.keys(fromTypedEvent) as Array<keyof PlatformEvents>).filter(key => fromTypedEvent[key]!.event === event);
+
+const safeInvoke = (event: PlatformEvent, handler: EventHandler, payload: EventPayload) => {
+  try {
+    handler(payload);
+  } catch (error) {
+    console.error(`Error in event handler for ${event}:`, error);
+  }
+};
+
+/**
+ * Drop-in replacement for the legacy PlatformEventBus, backed by the typed bus
+ */
+export class LegacyEventBus {
+  private subscriptions: Map<PlatformEvent, Map<EventHandler, () => void>> = new Map();
+
+  on<T = any>(event: PlatformEvent, handler: EventHandler<T>): () => void {
+    // Subscribing the same handler twice would deliver every event twice
+    this.off(event, handler);
+
+    const unsubscribers = [
+      subscribeToEvent('legacy:emitted', payload => {
+        if (payload.event === event) {
+          safeInvoke(event, handler, { source: payload.source, timestamp: payload.timestamp, data: payload.data });
+        }
+      }),
+      ...typedEventsFor(event).map(typedEvent =>
+        subscribeToEvent(typedEvent, (data: any) => {
+          if (bridgedFromLegacy.has(data)) {
+            return;
+          }
+          safeInvoke(event, handler, {
+            source: 'platform',
+            timestamp: data?.timestamp instanceof Date ? data.timestamp.getTime() : Date.now(),
+            data: (fromTypedEvent[typedEvent]!.toData as (data: unknown) => unknown)(data),
+          });
+        })
+      ),
+    ];
+
+    if (!this.subscriptions.has(event)) {
+      this.subscriptions.set(event, new Map());
+    }
+    this.subscriptions.get(event)!.set(handler, () => unsubscribers.forEach(unsubscribe => unsubscribe()));
+
+    // Return unsubscribe function
+    return () => this.off(event, handler);
+  }
+
+  off<T = any>(event: PlatformEvent, handler: EventHandler<T>): void {
+    const handlers = this.subscriptions.get(event);
+    const unsubscribe = handlers?.get(handler);
+    if (unsubscribe) {
+      unsubscribe();
+      handlers!.delete(handler);
+    }
+  }
+
+  emit<T = any>(event: PlatformEvent, data: T, source = 'unknown'): void {
+    const timestamp = Date.now();
+    publishEvent('legacy:emitted', { event, source, timestamp, data }, source);
+
+    const typed = toTypedEvent[event]?.(data, new Date(timestamp));
+    if (typed) {
+      const [typedEvent, typedData] = typed;
+      bridgedFromLegacy.add(typedData);
+      publishEvent(typedEvent, typedData as any, source);
+    }
+  }
+
+  clear(event?: PlatformEvent): void {
+    const events = event ? [event] : Array.from(this.subscriptions.keys());
+    events.forEach(key => {
+      this.subscriptions.get(key)?.forEach(unsubscribe => unsubscribe());
+      this.subscriptions.delete(key);
+    });
+  }
+}
+
+export const legacyEventBus = new LegacyEventBus();
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import { Filter, publishEvent } from './EventBus';
+import { loadPersistedState, type PersistedPlatformState, type PersistenceAdapter } from './persistence';
+import type { FeatureFlagService } from './featureFlags';
 
 /**
  * Breadcrumb item for navigation
@@ -65,9 +67,11 @@ export interface PlatformContextValue {
   // User & Auth
   user: User;
 
-  // Services (to be added in future phases)
+  // Services
+  featureFlags?: FeatureFlagService;
+
+  // To be added in future phases
   // telemetry?: TelemetryService;
-  // featureFlags?: FeatureFlagService;
   // data?: DataService;
 }
 
@@ -96,16 +100,33 @@ interface PlatformProviderProps {
   user: User;
   initialSearch?: string;
   initialFilters?: Filter[];
+  persistence?: PersistenceAdapter | PersistenceAdapter[]; // Read on mount; persisted values win over initial*
+  featureFlags?: FeatureFlagService;
 }
 
+// Tell subscribers about state restored from persistence
+const publishRestored = (state: PersistedPlatformState) => {
+  if (state.query) {
+    publishEvent('search:submitted', { query: state.query, timestamp: new Date() }, 'platform');
+  } else if (state.query !== undefined) {
+    publishEvent('search:cleared', { timestamp: new Date() }, 'platform');
+  }
+  if (state.filters !== undefined) {
+    publishEvent('filter:changed', { filters: state.filters, timestamp: new Date() }, 'platform');
+  }
+};
+
 /**
  * Platform Provider Component
  *
  * Wraps the application and provides platform context to all children.
  * Should be placed at the shell level to provide context to all tabs.
  *
+ * Pass persistence adapters to keep search, filters and navigation across
+ * refreshes and in deep links (see persistence.ts).
+ *
  * @example
- * <PlatformProvider user={currentUser}>
+ * <PlatformProvider user={currentUser} persistence={[createUrlPersistence(), createSessionStoragePersistence()]}>
  *   <App />
  * </PlatformProvider>
  */
@@ -114,13 +135,18 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
   user,
   initialSearch = '',
   initialFilters = [],
+  persistence,
+  featureFlags,
 }) => {
+  const [adapters] = useState<PersistenceAdapter[]>(() => (persistence ? ([] as PersistenceAdapter[]).concat(persistence) : []));
+  const [restored] = useState(() => loadPersistedState(adapters));
+
   // Search state
-  const [searchQuery, setSearchQuery] = useState(initialSearch);
-  const [filters, setFiltersState] = useState<Filter[]>(initialFilters);
+  const [searchQuery, setSearchQuery] = useState(restored.query ?? initialSearch);
+  const [filters, setFiltersState] = useState<Filter[]>(restored.filters ?? initialFilters);
 
   // Navigation state
-  const [currentPath, setCurrentPath] = useState<Breadcrumb[]>([]);
+  const [currentPath, setCurrentPath] = useState<Breadcrumb[]>(restored.path ?? []);
 
   // Selection state
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
@@ -130,15 +156,15 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
     setSearchQuery(query);
     // Emit event for other tabs to react
     if (query) {
-      publishEvent('search:submitted', { query, timestamp: new Date() });
+      publishEvent('search:submitted', { query, timestamp: new Date() }, 'platform');
     } else {
-      publishEvent('search:cleared', { timestamp: new Date() });
+      publishEvent('search:cleared', { timestamp: new Date() }, 'platform');
     }
   }, []);
 
   const setFilters = useCallback((newFilters: Filter[]) => {
     setFiltersState(newFilters);
-    publishEvent('filter:changed', { filters: newFilters, timestamp: new Date() });
+    publishEvent('filter:changed', { filters: newFilters, timestamp: new Date() }, 'platform');
   }, []);
 
   const addFilter = useCallback((filter: Filter) => {
@@ -152,14 +178,14 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
           filterType: filter.type,
           value: filter.value,
           timestamp: new Date(),
-        });
+        }, 'platform');
         return updated;
       }
       publishEvent('filter:applied', {
         filterType: filter.type,
         value: filter.value,
         timestamp: new Date(),
-      });
+      }, 'platform');
       return [...prev, filter];
     });
   }, []);
@@ -171,7 +197,7 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
         publishEvent('filter:removed', {
           filterType: filter.type,
           timestamp: new Date(),
-        });
+        }, 'platform');
       }
       return prev.filter(f => f.id !== filterId);
     });
@@ -180,8 +206,8 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
   const clearAllFilters = useCallback(() => {
     setSearchQuery('');
     setFiltersState([]);
-    publishEvent('filter:cleared-all', { timestamp: new Date() });
-    publishEvent('search:cleared', { timestamp: new Date() });
+    publishEvent('filter:cleared-all', { timestamp: new Date() }, 'platform');
+    publishEvent('search:cleared', { timestamp: new Date() }, 'platform');
   }, []);
 
   // Navigation methods
@@ -197,13 +223,13 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
       itemId: breadcrumb.id,
       path: breadcrumb.path || '',
       timestamp: new Date(),
-    });
+    }, 'platform');
   }, []);
 
   // Selection methods
   const setSelection = useCallback((ids: string[]) => {
     setSelectedIds(ids);
-    publishEvent('selection:changed', { selectedIds: ids, timestamp: new Date() });
+    publishEvent('selection:changed', { selectedIds: ids, timestamp: new Date() }, 'platform');
   }, []);
 
   const toggleSelection = useCallback((id: string) => {
@@ -214,21 +240,53 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
       publishEvent('selection:changed', {
         selectedIds: newSelection,
         timestamp: new Date(),
-      });
+      }, 'platform');
       return newSelection;
     });
   }, []);
 
   const clearSelection = useCallback(() => {
     setSelectedIds([]);
-    publishEvent('selection:cleared', { timestamp: new Date() });
+    publishEvent('selection:cleared', { timestamp: new Date() }, 'platform');
   }, []);
 
   const selectAll = useCallback((ids: string[]) => {
     setSelectedIds(ids);
-    publishEvent('selection:changed', { selectedIds: ids, timestamp: new Date() });
+    publishEvent('selection:changed', { selectedIds: ids, timestamp: new Date() }, 'platform');
   }, []);
 
+  // Persistence: announce hydrated state, follow external changes, save every change
+  useEffect(() => {
+    publishRestored(restored);
+
+    const unsubscribers = adapters.map(adapter =>
+      adapter.subscribe?.(state => {
+        // A field the adapter manages but no longer holds has been cleared
+        const changed: PersistedPlatformState = {};
+        if (adapter.fields.includes('query')) changed.query = state.query ?? '';
+        if (adapter.fields.includes('filters')) changed.filters = state.filters ?? [];
+        if (adapter.fields.includes('path')) changed.path = state.path ?? [];
+
+        if (changed.query !== undefined) setSearchQuery(changed.query);
+        if (changed.filters) setFiltersState(changed.filters);
+        if (changed.path) setCurrentPath(changed.path);
+        publishRestored(changed);
+      })
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe?.());
+  }, [adapters, restored]);
+
+  useEffect(() => {
+    adapters.forEach(adapter => {
+      try {
+        adapter.save({ query: searchQuery, filters, path: currentPath });
+      } catch (error) {
+        console.warn(`[PlatformContext] Could not save state to ${adapter.name}:`, error);
+      }
+    });
+  }, [adapters, searchQuery, filters, currentPath]);
+
   // Construct context value
   const value: PlatformContextValue = {
     search: {
@@ -253,6 +311,7 @@ export const PlatformProvider: React.FC<PlatformProviderProps> = ({
       selectAll,
     },
     user,
+    featureFlags,
   };
 
   return (
@@ -0,0 +1,134 @@
+import { publishEvent, type PlatformEvents } from './EventBus';
+import { addEventMiddleware, type PlatformEventName } from './middleware';
+
+/**
+ * Events relayed by default: changes users expect to see in every open window
+ */
+export const DEFAULT_RELAYED_EVENTS: PlatformEventName[] = [
+  'selection:changed',
+  'selection:cleared',
+  'file:uploaded',
+  'file:deleted',
+  'folder:created',
+];
+
+export interface CrossWindowRelayOptions {
+  events?: PlatformEventName[]; // Whitelist of events to relay (default: DEFAULT_RELAYED_EVENTS)
+  channelName?: string; // BroadcastChannel name / localStorage key (default: 'platform-events')
+}
+
+interface RelayMessage {
+  origin: string; // Id of the window that published the event
+  source: string;
+  event: PlatformEventName;
+  data: unknown;
+}
+
+// Payloads published from another window; never relayed back out
+const receivedFromRelay = new WeakSet<object>();
+
+const createWindowId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// localStorage serializes to JSON, so Date fields arrive as strings
+const reviveDates = (data: unknown): unknown => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return data;
+  }
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      (key === 'timestamp' || key.endsWith('At')) && typeof value === 'string' ? new Date(value) : value,
+    ])
+  );
+};
+
+/**
+ * Transport between windows of the same origin
+ *
+ * Uses BroadcastChannel where available and falls back to localStorage
+ * "storage" events, which browsers only fire in other windows.
+ */
+const createTransport = (channelName: string, onMessage: (message: RelayMessage) => void) => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event: MessageEvent<RelayMessage>) => onMessage(event.data);
+
+    return {
+      send: (message: RelayMessage) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== channelName || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.warn('[EventBus] Ignoring malformed cross-window message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    // The nonce makes repeated identical messages still count as a change
+    send: (message: RelayMessage) =>
+      localStorage.setItem(channelName, JSON.stringify({ message, nonce: createWindowId() })),
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
+
+/**
+ * Relay whitelisted platform events to other windows of the platform
+ *
+ * Opt-in: call once in the host. Each window tags messages with its own id
+ * and republishes only messages from other windows, and events received from
+ * another window are not sent out again, so nothing is echoed back.
+ *
+ * Payloads must be structured-cloneable (or JSON-serializable for the
+ * localStorage fallback).
+ *
+ * @returns function that stops relaying
+ *
+ * @example
+ * const stopRelay = startCrossWindowRelay({ events: ['file:uploaded'] });
+ */
+export const startCrossWindowRelay = (options: CrossWindowRelayOptions = {}): (() => void) => {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  const events = new Set(options.events || DEFAULT_RELAYED_EVENTS);
+  const windowId = createWindowId();
+
+  const transport = createTransport(options.channelName || 'platform-events', message => {
+    if (!message || message.origin === windowId || !events.has(message.event)) {
+      return;
+    }
+
+    const data = reviveDates(message.data);
+    if (data && typeof data === 'object') {
+      receivedFromRelay.add(data);
+    }
+    publishEvent(message.event, data as PlatformEvents[typeof message.event], message.source);
+  });
+
+  const removeMiddleware = addEventMiddleware({
+    name: 'cross-window-relay',
+    afterPublish: ({ event, data, source }) => {
+      if (!events.has(event) || (data && typeof data === 'object' && receivedFromRelay.has(data))) {
+        return;
+      }
+
+      try {
+        transport.send({ origin: windowId, source, event, data });
+      } catch (error) {
+        console.warn(`[EventBus] Could not relay ${event} to other windows:`, error);
+      }
+    },
+  });
+
+  return () => {
+    removeMiddleware();
+    transport.close();
+  };
+};
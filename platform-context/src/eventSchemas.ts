@@ -0,0 +1,212 @@
+import type { EventMiddleware, PlatformEventName } from './middleware';
+import platformEventsSchema from './schemas/PlatformEvents.schema.json';
+
+/**
+ * Runtime validation of event payloads
+ *
+ * PlatformEvents only exists at compile time, so a remote built against an
+ * older contract can publish payloads the current subscribers don't expect.
+ * The JSON Schemas in schemas/PlatformEvents.schema.json are generated from
+ * the PlatformEvents type (npm run generate:schema) and checked here.
+ *
+ * Only the schema keywords the generator emits are supported. A
+ * `format: 'date-time'` property must hold a Date, since that is what the
+ * Date fields of PlatformEvents carry at runtime.
+ */
+
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  $ref?: string;
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export interface EventValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * An invalid payload, with the module that published it
+ */
+export interface EventSchemaViolation {
+  event: PlatformEventName;
+  source: string;
+  data: unknown;
+  errors: string[];
+}
+
+const defaultSchema = platformEventsSchema as JsonSchema;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const describeValue = (value: unknown) =>
+  value instanceof Date ? 'Date' : value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const checkSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  definitions: Record<string, JsonSchema>,
+  errors: string[]
+): void => {
+  if (schema.$ref) {
+    const definition = definitions[schema.$ref.replace('#/definitions/', '')];
+    if (definition) {
+      checkSchema(value, definition, path, definitions, errors);
+    }
+    return;
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => {
+      const optionErrors: string[] = [];
+      checkSchema(value, option, path, definitions, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matches) {
+      errors.push(`${path} does not match any allowed shape`);
+    }
+    return;
+  }
+
+  if (schema.format === 'date-time') {
+    if (!(value instanceof Date) || isNaN(value.getTime())) {
+      errors.push(`${path} must be a Date, got ${describeValue(value)}`);
+    }
+    return;
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path} must be ${types.join(' or ')}, got ${describeValue(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => checkSchema(item, schema.items!, `${path}[${index}]`, definitions, errors));
+    return;
+  }
+
+  if (typeOf(value) === 'object' && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    });
+
+    Object.entries(record).forEach(([key, item]) => {
+      if (item === undefined) return;
+
+      if (properties[key]) {
+        checkSchema(item, properties[key], `${path}.${key}`, definitions, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        checkSchema(item, schema.additionalProperties, `${path}.${key}`, definitions, errors);
+      }
+    });
+  }
+};
+
+/**
+ * Validate a payload against the schema of its event
+ *
+ * Events without a schema (e.g. added by declaration merging after the
+ * schema was generated) are treated as valid.
+ *
+ * @param schema - Schema of the whole PlatformEvents map (default: the generated one)
+ *
+ * @example
+ * const { valid, errors } = validateEventPayload('search:submitted', { query: 'q', timestamp: new Date() });
+ */
+export const validateEventPayload = (
+  event: PlatformEventName,
+  data: unknown,
+  schema: JsonSchema = defaultSchema
+): EventValidationResult => {
+  const eventSchema = schema.properties?.[event];
+  if (!eventSchema) {
+    return { valid: true, errors: [] };
+  }
+
+  const errors: string[] = [];
+  checkSchema(data, eventSchema, 'data', schema.definitions || {}, errors);
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Validate every payload before it is delivered
+ *
+ * Violations are reported with the publishing module, so a remote built
+ * against an outdated contract can be found. Invalid events are still
+ * delivered unless `drop` is set.
+ *
+ * @param options.onViolation - Receives each violation (default: console.warn)
+ * @param options.drop - Drop invalid events instead of delivering them
+ * @param options.events - Only validate these events (default: all)
+ * @param options.schema - Schema to validate against (default: the generated one)
+ *
+ * @example
+ * addEventMiddleware(createSchemaValidationMiddleware({ drop: process.env.NODE_ENV === 'test' }));
+ */
+export const createSchemaValidationMiddleware = (options: {
+  onViolation?: (violation: EventSchemaViolation) => void;
+  drop?: boolean;
+  events?: PlatformEventName[];
+  schema?: JsonSchema;
+} = {}): EventMiddleware => {
+  const onViolation =
+    options.onViolation ||
+    ((violation: EventSchemaViolation) =>
+      console.warn(
+        `[EventBus] Invalid ${violation.event} payload from ${violation.source}:`,
+        violation.errors.join('; ')
+      ));
+
+  return {
+    name: 'schema-validation',
+    beforePublish: context => {
+      if (options.events && !options.events.includes(context.event)) return;
+
+      const { valid, errors } = validateEventPayload(context.event, context.data, options.schema);
+      if (valid) return;
+
+      onViolation({ event: context.event, source: context.source, data: context.data, errors });
+      return options.drop ? null : undefined;
+    },
+  };
+};
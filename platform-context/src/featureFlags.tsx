@@ -0,0 +1,214 @@
+import React, { useCallback, useContext, useSyncExternalStore, ReactNode } from 'react';
+import { PlatformContext } from './PlatformContext';
+
+/**
+ * Feature flags
+ *
+ * Flags are read from providers (a flag file, static defaults) and can be
+ * overridden per user, so new tabs and components can be dark-launched: ship
+ * them disabled, then enable them for selected users before everyone.
+ */
+
+export type FeatureFlags = Record<string, boolean>;
+
+/**
+ * Source of flag values; later providers override earlier ones
+ */
+export interface FeatureFlagProvider {
+  name: string;
+  load: (userId?: string) => FeatureFlags | Promise<FeatureFlags>;
+}
+
+/**
+ * Flag file format served by createFlagFileProvider
+ *
+ * @example
+ * { "flags": { "reports-v2": false }, "users": { "user-1": { "reports-v2": true } } }
+ */
+export interface FlagFile {
+  flags: FeatureFlags;
+  users?: Record<string, FeatureFlags>; // Per-user overrides, keyed by user id
+}
+
+export interface FeatureFlagService {
+  isEnabled: (flag: string) => boolean; // Unknown flags are disabled
+  getFlags: () => FeatureFlags; // Same object until a flag changes
+  setOverride: (flag: string, enabled: boolean | undefined) => void; // undefined removes the override
+  subscribe: (listener: () => void) => () => void;
+  refresh: () => Promise<void>; // Reload all providers
+  ready: Promise<void>; // Resolves once providers have loaded the first time
+}
+
+/**
+ * Flags defined in code
+ */
+export const createStaticFlagProvider = (flags: FeatureFlags, name = 'static'): FeatureFlagProvider => ({
+  name,
+  load: () => flags,
+});
+
+/**
+ * Flags from a JSON flag file (see FlagFile)
+ *
+ * The file's per-user section is applied for the current user.
+ */
+export const createFlagFileProvider = (url: string): FeatureFlagProvider => ({
+  name: url,
+  load: async userId => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const file = (await response.json()) as FlagFile;
+    return { ...file.flags, ...(userId ? file.users?.[userId] : undefined) };
+  },
+});
+
+const OVERRIDES_KEY = 'platform-feature-flags';
+
+const readOverrides = (key: string): FeatureFlags => {
+  try {
+    const stored = typeof window === 'undefined' ? null : window.localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('[FeatureFlags] Ignoring unreadable overrides:', error);
+    return {};
+  }
+};
+
+const writeOverrides = (key: string, overrides: FeatureFlags) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(overrides));
+  } catch (error) {
+    console.warn('[FeatureFlags] Could not save overrides:', error);
+  }
+};
+
+/**
+ * Create the feature flag service
+ *
+ * Values are resolved as: defaults, then each provider in order, then the
+ * user's overrides (kept in localStorage per user id). A failing provider is
+ * skipped so one unreachable flag file cannot break the platform.
+ *
+ * @example
+ * const featureFlags = createFeatureFlagService({
+ *   userId: user.id,
+ *   providers: [createFlagFileProvider('/feature-flags.json')],
+ * });
+ * <PlatformProvider user={user} featureFlags={featureFlags}>
+ */
+export const createFeatureFlagService = (options: {
+  providers?: FeatureFlagProvider[];
+  defaults?: FeatureFlags;
+  userId?: string;
+} = {}): FeatureFlagService => {
+  const providers = options.providers || [];
+  const overridesKey = options.userId ? `${OVERRIDES_KEY}:${options.userId}` : OVERRIDES_KEY;
+  const listeners = new Set<() => void>();
+
+  let loaded: FeatureFlags = { ...options.defaults };
+  let overrides = readOverrides(overridesKey);
+  let flags: FeatureFlags = { ...loaded, ...overrides };
+
+  const update = () => {
+    flags = { ...loaded, ...overrides };
+    listeners.forEach(listener => listener());
+  };
+
+  const refresh = async () => {
+    const results = await Promise.all(
+      providers.map(async provider => {
+        try {
+          return await provider.load(options.userId);
+        } catch (error) {
+          console.error(`[FeatureFlags] Failed to load flags from ${provider.name}:`, error);
+          return {};
+        }
+      })
+    );
+
+    loaded = Object.assign({ ...options.defaults }, ...results);
+    update();
+  };
+
+  return {
+    isEnabled: flag => flags[flag] === true,
+    getFlags: () => flags,
+    setOverride: (flag, enabled) => {
+      overrides = { ...overrides };
+      if (enabled === undefined) {
+        delete overrides[flag];
+      } else {
+        overrides[flag] = enabled;
+      }
+      writeOverrides(overridesKey, overrides);
+      update();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    refresh,
+    ready: refresh(),
+  };
+};
+
+const NO_FLAGS: FeatureFlags = {};
+
+const noopSubscribe = () => () => {};
+
+// Current flags of the service in context, re-rendering when they change
+const useFlags = (): FeatureFlags => {
+  const service = useContext(PlatformContext)?.featureFlags;
+
+  return useSyncExternalStore(
+    service ? service.subscribe : noopSubscribe,
+    service ? service.getFlags : () => NO_FLAGS
+  );
+};
+
+/**
+ * Whether a flag is enabled; false without a feature flag service
+ *
+ * @example
+ * const showNewUpload = useFeatureFlag('upload-v2');
+ */
+export const useFeatureFlag = (flag: string): boolean => useFlags()[flag] === true;
+
+/**
+ * Flag check bound to the current flags, for filtering lists
+ *
+ * The returned function passes when no flag is given, and only changes when
+ * a flag does.
+ *
+ * @example
+ * const isFlagEnabled = useFeatureFlagChecker();
+ * const entries = manifest.filter(entry => isFlagEnabled(entry.featureFlag));
+ */
+export const useFeatureFlagChecker = (): ((flag?: string) => boolean) => {
+  const flags = useFlags();
+  return useCallback((flag?: string) => !flag || flags[flag] === true, [flags]);
+};
+
+export interface FeatureProps {
+  flag: string;
+  children: ReactNode;
+  fallback?: ReactNode; // Rendered while the flag is disabled
+}
+
+/**
+ * Render children only when a flag is enabled
+ *
+ * @example
+ * <Feature flag="hubs-insights" fallback={<LegacyInsights />}>
+ *   <HubsInsights />
+ * </Feature>
+ */
+export const Feature: React.FC<FeatureProps> = ({ flag, children, fallback = null }) => {
+  const enabled = useFeatureFlag(flag);
+  return <>{enabled ? children : fallback}</>;
+};
@@ -0,0 +1,149 @@
+import { publishEvent, type PlatformEvents } from './EventBus';
+import type { EventContext, PublishResult, PlatformEventName } from './middleware';
+
+/**
+ * Sticky events and the replay buffer
+ *
+ * The last payload of each sticky event is retained and handed to new
+ * subscribers immediately, so lazily mounted tabs learn the current search,
+ * selection and filters. Every delivered event is also kept in a bounded
+ * ring buffer for devtools.
+ */
+
+/**
+ * Sticky events, each mapped to the events that clear it
+ */
+export const STICKY_EVENTS: { [K in PlatformEventName]?: PlatformEventName[] } = {
+  'search:submitted': ['search:cleared'],
+  'selection:changed': ['selection:cleared'],
+  'filter:changed': ['filter:cleared-all'],
+  'tab:activated': [],
+  'navigation:folder-opened': [],
+};
+
+/**
+ * A delivered event as kept in the replay buffer
+ */
+export interface EventRecord<K extends PlatformEventName = PlatformEventName> extends PublishResult {
+  id: number;
+  event: K;
+  data: PlatformEvents[K];
+  source: string;
+  timestamp: number;
+}
+
+const DEFAULT_HISTORY_CAPACITY = 200;
+
+interface HistoryState {
+  sticky: Map<PlatformEventName, unknown>;
+  buffer: Array<EventRecord | undefined>;
+  start: number; // Index of the oldest record
+  size: number;
+  nextId: number;
+}
+
+// Kept on globalThis for the same reason as the bus itself (see EventBus.ts)
+const HISTORY_KEY = '__PLATFORM_EVENT_HISTORY__';
+
+type GlobalWithHistory = typeof globalThis & { [HISTORY_KEY]?: HistoryState };
+
+const createState = (capacity: number): HistoryState => ({
+  sticky: new Map(),
+  buffer: new Array(capacity),
+  start: 0,
+  size: 0,
+  nextId: 1,
+});
+
+const getState = (): HistoryState =>
+  (globalThis as GlobalWithHistory)[HISTORY_KEY] ??
+  ((globalThis as GlobalWithHistory)[HISTORY_KEY] = createState(DEFAULT_HISTORY_CAPACITY));
+
+const clearedStickyEvents = (event: PlatformEventName) =>
+  (Object.keys(STICKY_EVENTS) as PlatformEventName[]).filter(sticky => STICKY_EVENTS[sticky]!.includes(event));
+
+/**
+ * Record a delivered event; called by publishEvent
+ */
+export const recordEvent = (context: EventContext, result: PublishResult): void => {
+  const state = getState();
+
+  if (context.event in STICKY_EVENTS) {
+    state.sticky.set(context.event, context.data);
+  }
+  clearedStickyEvents(context.event).forEach(sticky => state.sticky.delete(sticky));
+
+  const record: EventRecord = {
+    id: state.nextId++,
+    event: context.event,
+    data: context.data,
+    source: context.source,
+    timestamp: context.timestamp,
+    ...result,
+  };
+
+  const capacity = state.buffer.length;
+  if (capacity > 0) {
+    // Overwrite the oldest record once the buffer is full
+    state.buffer[(state.start + state.size) % capacity] = record;
+    if (state.size < capacity) {
+      state.size++;
+    } else {
+      state.start = (state.start + 1) % capacity;
+    }
+  }
+};
+
+/**
+ * Last payload of a sticky event, if it has fired and not been cleared
+ */
+export const getStickyEvent = <K extends PlatformEventName>(event: K): PlatformEvents[K] | undefined =>
+  getState().sticky.get(event) as PlatformEvents[K] | undefined;
+
+/**
+ * Recorded events, oldest first
+ */
+export const getEventHistory = (): EventRecord[] => {
+  const { buffer, start, size } = getState();
+  return Array.from({ length: size }, (_, index) => buffer[(start + index) % buffer.length]!);
+};
+
+/**
+ * Clear the replay buffer (sticky payloads are kept)
+ */
+export const clearEventHistory = (): void => {
+  const state = getState();
+  state.buffer = new Array(state.buffer.length);
+  state.start = 0;
+  state.size = 0;
+};
+
+/**
+ * Change how many events the replay buffer keeps; keeps the newest records
+ */
+export const setEventHistoryCapacity = (capacity: number): void => {
+  const state = getState();
+  const records = getEventHistory();
+  const size = Math.min(records.length, Math.max(capacity, 0));
+
+  state.buffer = new Array(Math.max(capacity, 0));
+  records.slice(records.length - size).forEach((record, index) => {
+    state.buffer[index] = record;
+  });
+  state.start = 0;
+  state.size = size;
+};
+
+/**
+ * Publish recorded events again, oldest first
+ *
+ * Replayed events go through middleware and are recorded again like any
+ * other publish.
+ *
+ * @param filter - Choose which records to replay (default: all)
+ */
+export const replayEvents = (filter: (record: EventRecord) => boolean = () => true): void => {
+  getEventHistory()
+    .filter(filter)
+    .forEach(({ event, data, source }) => publishEvent(event, data as PlatformEvents[typeof event], source));
+};
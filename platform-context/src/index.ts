@@ -30,6 +30,46 @@ export type {
   User,
 } from './PlatformContext';
 
+// Export persistence adapters for PlatformProvider
+export {
+  createUrlPersistence,
+  createSessionStoragePersistence,
+  createLocalStoragePersistence,
+  loadPersistedState,
+  serializeFilters,
+  deserializeFilters,
+} from './persistence';
+
+export type {
+  PersistenceAdapter,
+  PersistenceOptions,
+  PersistedField,
+  PersistedPlatformState,
+} from './persistence';
+
+// Export permission checks
+export { hasPermission, usePermission, usePermissionChecker, Can } from './permissions';
+
+export type { CanProps } from './permissions';
+
+// Export feature flags
+export {
+  createFeatureFlagService,
+  createStaticFlagProvider,
+  createFlagFileProvider,
+  useFeatureFlag,
+  useFeatureFlagChecker,
+  Feature,
+} from './featureFlags';
+
+export type {
+  FeatureFlags,
+  FeatureFlagProvider,
+  FeatureFlagService,
+  FlagFile,
+  FeatureProps,
+} from './featureFlags';
+
 // Export Event Bus
 export {
   eventBus,
@@ -43,3 +83,59 @@ export type {
   PlatformEvents,
   Filter,
 } from './EventBus';
+
+// Export Event Bus middleware
+export {
+  addEventMiddleware,
+  clearEventMiddleware,
+  createLoggingMiddleware,
+  createRedactionMiddleware,
+  createSamplingMiddleware,
+  createRateLimitMiddleware,
+} from './middleware';
+
+export type {
+  EventMiddleware,
+  EventContext,
+  EventLogEntry,
+  PublishResult,
+  PlatformEventName,
+} from './middleware';
+
+// Export runtime payload validation
+export { validateEventPayload, createSchemaValidationMiddleware } from './eventSchemas';
+
+export type { EventValidationResult, EventSchemaViolation, JsonSchema } from './eventSchemas';
+
+// Export cross-window relay
+export { startCrossWindowRelay, DEFAULT_RELAYED_EVENTS } from './crossWindowRelay';
+
+export type { CrossWindowRelayOptions } from './crossWindowRelay';
+
+// Export sticky events and replay buffer
+export {
+  STICKY_EVENTS,
+  getStickyEvent,
+  getEventHistory,
+  clearEventHistory,
+  setEventHistoryCapacity,
+  replayEvents,
+} from './history';
+
+export type { EventRecord } from './history';
+
+// Export request/response API
+export { request, respond, PlatformRequestError } from './requests';
+
+export type {
+  PlatformRequests,
+  PlatformRequestName,
+  PlatformRequestErrorCode,
+  RequestPayload,
+  ResponsePayload,
+} from './requests';
+
+// Export legacy event bus adapter (shared-data PlatformEvent enum)
+export { legacyEventBus, PlatformEvent } from './LegacyEventBus';
+
+export type { EventPayload, LegacyEventBus } from './LegacyEventBus';
@@ -0,0 +1,256 @@
+import type { PlatformEvents } from './EventBus';
+
+export type PlatformEventName = keyof PlatformEvents;
+
+/**
+ * An event travelling through the middleware pipeline
+ */
+export interface EventContext<K extends PlatformEventName = PlatformEventName> {
+  event: K;
+  data: PlatformEvents[K]; // Delivered to subscribers
+  source: string; // Publishing MFE
+  timestamp: number;
+  redacted?: unknown; // Copy of data safe to log; set by redaction middleware
+}
+
+/**
+ * Outcome of delivering an event, passed to afterPublish
+ */
+export interface PublishResult {
+  handlerCount: number;
+  durationMs: number;
+  handlerDurationsMs: number[]; // Per handler, in call order
+}
+
+/**
+ * Event bus middleware
+ *
+ * beforePublish runs in registration order and may return a replacement
+ * context, or null to drop the event. afterPublish runs once subscribers have
+ * been called.
+ */
+export interface EventMiddleware {
+  name: string;
+  beforePublish?: (context: EventContext) => EventContext | null | void;
+  afterPublish?: (context: EventContext, result: PublishResult) => void;
+}
+
+// Kept on globalThis for the same reason as the bus itself (see EventBus.ts)
+const MIDDLEWARE_KEY = '__PLATFORM_EVENT_MIDDLEWARE__';
+
+type GlobalWithMiddleware = typeof globalThis & { [MIDDLEWARE_KEY]?: EventMiddleware[] };
+
+const getMiddleware = (): EventMiddleware[] =>
+  (globalThis as GlobalWithMiddleware)[MIDDLEWARE_KEY] ??
+  ((globalThis as GlobalWithMiddleware)[MIDDLEWARE_KEY] = []);
+
+/**
+ * Add middleware to the event bus
+ * Returns a function that removes it again
+ *
+ * @example
+ * const remove = addEventMiddleware(createLoggingMiddleware());
+ */
+export const addEventMiddleware = (middleware: EventMiddleware): (() => void) => {
+  getMiddleware().push(middleware);
+
+  return () => {
+    const list = getMiddleware();
+    const index = list.indexOf(middleware);
+    if (index !== -1) {
+      list.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Remove all middleware
+ */
+export const clearEventMiddleware = () => {
+  getMiddleware().length = 0;
+};
+
+/**
+ * Run beforePublish hooks
+ *
+ * A throwing middleware is skipped rather than blocking the event.
+ *
+ * @returns the context to deliver, or null when a middleware dropped the event
+ */
+export const runBeforePublish = (context: EventContext): EventContext | null => {
+  let current = context;
+
+  for (const middleware of [...getMiddleware()]) {
+    if (!middleware.beforePublish) continue;
+
+    try {
+      const result = middleware.beforePublish(current);
+      if (result === null) {
+        return null;
+      }
+      if (result) {
+        current = result;
+      }
+    } catch (error) {
+      console.error(`[EventBus] Middleware "${middleware.name}" failed in beforePublish:`, error);
+    }
+  }
+
+  return current;
+};
+
+/**
+ * Run afterPublish hooks
+ */
+export const runAfterPublish = (context: EventContext, result: PublishResult) => {
+  [...getMiddleware()].forEach(middleware => {
+    try {
+      middleware.afterPublish?.(context, result);
+    } catch (error) {
+      console.error(`[EventBus] Middleware "${middleware.name}" failed in afterPublish:`, error);
+    }
+  });
+};
+
+const appliesTo = (events: PlatformEventName[] | undefined, event: PlatformEventName) =>
+  !events || events.includes(event);
+
+/**
+ * Structured log entry written by the logging middleware
+ */
+export interface EventLogEntry extends PublishResult {
+  event: PlatformEventName;
+  source: string;
+  data: unknown;
+  timestamp: string;
+}
+
+/**
+ * Log every delivered event
+ *
+ * Logs the redacted copy of the payload when a redaction middleware ran first.
+ *
+ * @param options.logger - Receives a structured entry (default: console.log)
+ * @param options.events - Only log these events (default: all)
+ */
+export const createLoggingMiddleware = (options: {
+  logger?: (entry: EventLogEntry) => void;
+  events?: PlatformEventName[];
+} = {}): EventMiddleware => {
+  const logger = options.logger || ((entry: EventLogEntry) => console.log(`[EventBus] ${entry.event}`, entry));
+
+  return {
+    name: 'logging',
+    afterPublish: (context, result) => {
+      if (!appliesTo(options.events, context.event)) return;
+
+      logger({
+        event: context.event,
+        source: context.source,
+        data: 'redacted' in context ? context.redacted : context.data,
+        timestamp: new Date(context.timestamp).toISOString(),
+        ...result,
+      });
+    },
+  };
+};
+
+const DEFAULT_PII_FIELDS = ['email', 'userId', 'userName', 'fileName', 'query', 'message'];
+
+const redact = (value: unknown, fields: Set<string>, replacement: string): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, fields, replacement));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        fields.has(key.toLowerCase()) ? replacement : redact(item, fields, replacement),
+      ])
+    );
+  }
+  return value;
+};
+
+/**
+ * Mask PII in the copy of each payload that later middleware log
+ *
+ * Subscribers still receive the original payload. Add this before the
+ * logging middleware.
+ *
+ * @param options.fields - Payload keys to mask at any depth (case-insensitive)
+ */
+export const createRedactionMiddleware = (options: {
+  fields?: string[];
+  replacement?: string;
+} = {}): EventMiddleware => {
+  const fields = new Set((options.fields || DEFAULT_PII_FIELDS).map(field => field.toLowerCase()));
+  const replacement = options.replacement ?? '[REDACTED]';
+
+  return {
+    name: 'redaction',
+    beforePublish: context => ({
+      ...context,
+      redacted: redact('redacted' in context ? context.redacted : context.data, fields, replacement),
+    }),
+  };
+};
+
+/**
+ * Deliver only a fraction of events
+ *
+ * Intended for high-volume events; restrict it with `events` so important
+ * events are never dropped.
+ *
+ * @param options.rate - Fraction of events to keep, between 0 and 1
+ * @param options.events - Only sample these events (default: all)
+ */
+export const createSamplingMiddleware = (options: {
+  rate: number;
+  events?: PlatformEventName[];
+  random?: () => number;
+}): EventMiddleware => {
+  const random = options.random || Math.random;
+
+  return {
+    name: 'sampling',
+    beforePublish: context => {
+      if (!appliesTo(options.events, context.event)) return;
+      return random() < options.rate ? context : null;
+    },
+  };
+};
+
+/**
+ * Drop events that exceed a per-event-type rate
+ *
+ * @param limits - Maximum events per window, keyed by event name
+ *
+ * @example
+ * createRateLimitMiddleware({ 'selection:changed': { max: 10, windowMs: 1000 } });
+ */
+export const createRateLimitMiddleware = (
+  limits: Partial<Record<PlatformEventName, { max: number; windowMs: number }>>,
+  now: () => number = Date.now
+): EventMiddleware => {
+  const recent = new Map<PlatformEventName, number[]>();
+
+  return {
+    name: 'rate-limit',
+    beforePublish: context => {
+      const limit = limits[context.event];
+      if (!limit) return;
+
+      const time = now();
+      const times = (recent.get(context.event) || []).filter(t => time - t < limit.windowMs);
+
+      if (times.length >= limit.max) {
+        recent.set(context.event, times);
+        return null;
+      }
+
+      times.push(time);
+      recent.set(context.event, times);
+    },
+  };
+};
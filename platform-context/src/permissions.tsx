@@ -0,0 +1,93 @@
+import React, { useCallback, useContext, ReactNode } from 'react';
+import { PlatformContext } from './PlatformContext';
+
+/**
+ * Permission checks against User.permissions
+ *
+ * Permissions are `resource:action` strings (e.g. 'files:delete'). A granted
+ * permission may use `*` as a wildcard segment: 'files:*' grants every files
+ * action and '*' grants everything.
+ */
+
+const matches = (granted: string, required: string): boolean => {
+  const grantedParts = granted.split(':');
+  const requiredParts = required.split(':');
+
+  for (let index = 0; index < grantedParts.length; index++) {
+    if (grantedParts[index] === '*') {
+      // A trailing wildcard covers all remaining segments
+      if (index === grantedParts.length - 1) return index < requiredParts.length;
+      if (index >= requiredParts.length) return false;
+    } else if (grantedParts[index] !== requiredParts[index]) {
+      return false;
+    }
+  }
+
+  return grantedParts.length === requiredParts.length;
+};
+
+/**
+ * Check whether granted permissions cover every required permission
+ *
+ * An empty or missing requirement is always satisfied.
+ *
+ * @example
+ * hasPermission(['files:*'], 'files:delete'); // true
+ * hasPermission(['files:read'], ['files:read', 'files:share']); // false
+ */
+export const hasPermission = (granted: readonly string[], required?: string | readonly string[]): boolean => {
+  const requiredList = typeof required === 'string' ? [required] : required || [];
+  return requiredList.every(permission => granted.some(grant => matches(grant, permission)));
+};
+
+/**
+ * Check the current user's permissions
+ *
+ * Outside a PlatformProvider there is no user, so only empty requirements
+ * pass.
+ *
+ * @example
+ * const canDelete = usePermission('files:delete');
+ */
+export const usePermission = (required?: string | readonly string[]): boolean => {
+  const context = useContext(PlatformContext);
+  return hasPermission(context?.user.permissions || [], required);
+};
+
+/**
+ * Permission check bound to the current user, for filtering lists
+ *
+ * The returned function only changes when the user's permissions do.
+ *
+ * @example
+ * const can = usePermissionChecker();
+ * const visibleTabs = tabs.filter(tab => can(tab.config.permissions));
+ */
+export const usePermissionChecker = (): ((required?: string | readonly string[]) => boolean) => {
+  const context = useContext(PlatformContext);
+  const granted = context?.user.permissions;
+
+  return useCallback(
+    (required?: string | readonly string[]) => hasPermission(granted || [], required),
+    [granted]
+  );
+};
+
+export interface CanProps {
+  permission: string | string[]; // All are required
+  children: ReactNode;
+  fallback?: ReactNode; // Rendered when the user lacks a permission
+}
+
+/**
+ * Render children only when the current user has the permission(s)
+ *
+ * @example
+ * <Can permission="files:delete" fallback={<span>Read only</span>}>
+ *   <DeleteButton />
+ * </Can>
+ */
+export const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
@@ -0,0 +1,263 @@
+import type { Filter } from './EventBus';
+import type { Breadcrumb } from './PlatformContext';
+
+/**
+ * Persistence adapters for PlatformProvider state
+ *
+ * Search query, filters and navigation path can be saved to the URL (for deep
+ * links), sessionStorage (survives a refresh) or localStorage (survives
+ * closing the browser), and are hydrated from there on mount.
+ */
+
+export type PersistedField = 'query' | 'filters' | 'path';
+
+/**
+ * The part of the platform state that can be persisted
+ *
+ * Breadcrumb onClick handlers are not serializable and are dropped.
+ */
+export interface PersistedPlatformState {
+  query?: string;
+  filters?: Filter[];
+  path?: Breadcrumb[];
+}
+
+export interface PersistenceAdapter {
+  name: string;
+  fields: PersistedField[];
+  load: () => PersistedPlatformState;
+  save: (state: PersistedPlatformState) => void;
+  subscribe?: (onChange: (state: PersistedPlatformState) => void) => () => void; // Changes made outside this window/history entry
+}
+
+export interface PersistenceOptions {
+  fields?: PersistedField[]; // Fields this adapter persists (default: all)
+}
+
+const ALL_FIELDS: PersistedField[] = ['query', 'filters', 'path'];
+
+// Filter values can be anything; Dates are tagged so they survive the round trip
+const DATE_TAG = '__date__';
+
+/**
+ * Serialize filters to JSON, preserving Date values
+ */
+export const serializeFilters = (filters: Filter[]): string =>
+  JSON.stringify(filters, function (this: Record<string, unknown>, key, value) {
+    const original = this[key];
+    return original instanceof Date ? { [DATE_TAG]: original.toISOString() } : value;
+  });
+
+/**
+ * Parse filters serialized by serializeFilters
+ *
+ * @returns the filters, or undefined when the input is malformed
+ */
+export const deserializeFilters = (serialized: string): Filter[] | undefined => {
+  try {
+    const filters = JSON.parse(serialized, (_key, value) =>
+      value && typeof value === 'object' && typeof value[DATE_TAG] === 'string' ? new Date(value[DATE_TAG]) : value
+    );
+    return Array.isArray(filters)
+      ? filters.filter(filter => filter && typeof filter.id === 'string' && typeof filter.type === 'string')
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const serializePath = (path: Breadcrumb[]) =>
+  JSON.stringify(path.map(({ id, label, path: itemPath }) => ({ id, label, path: itemPath })));
+
+const deserializePath = (serialized: string): Breadcrumb[] | undefined => {
+  try {
+    const path = JSON.parse(serialized);
+    return Array.isArray(path) ? path.filter(item => item && typeof item.id === 'string') : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const pick = (state: PersistedPlatformState, fields: PersistedField[]): PersistedPlatformState =>
+  Object.fromEntries(fields.filter(field => state[field] !== undefined).map(field => [field, state[field]]));
+
+/**
+ * Keep state in the URL query string (?q=...&filters=...&path=...)
+ *
+ * Uses history.replaceState, so typing a search does not add history entries.
+ * Back/forward navigation between entries created elsewhere re-hydrates the
+ * state.
+ *
+ * @param options.params - Query parameter names (default: q, filters, path)
+ *
+ * @example
+ * <PlatformProvider user={user} persistence={createUrlPersistence({ fields: ['query', 'filters'] })}>
+ */
+export const createUrlPersistence = (
+  options: PersistenceOptions & { params?: Partial<Record<PersistedField, string>> } = {}
+): PersistenceAdapter => {
+  const fields = options.fields || ALL_FIELDS;
+  const params: Record<PersistedField, string> = { query: 'q', filters: 'filters', path: 'path', ...options.params };
+
+  const load = (): PersistedPlatformState => {
+    if (typeof window === 'undefined') return {};
+
+    const search = new URLSearchParams(window.location.search);
+    const state: PersistedPlatformState = {};
+    if (fields.includes('query') && search.has(params.query)) {
+      state.query = search.get(params.query) || '';
+    }
+    if (fields.includes('filters') && search.has(params.filters)) {
+      state.filters = deserializeFilters(search.get(params.filters)!);
+    }
+    if (fields.includes('path') && search.has(params.path)) {
+      state.path = deserializePath(search.get(params.path)!);
+    }
+    return state;
+  };
+
+  return {
+    name: 'url',
+    fields,
+    load,
+    save: state => {
+      if (typeof window === 'undefined') return;
+
+      const url = new URL(window.location.href);
+      const set = (field: PersistedField, value: string | undefined) => {
+        if (!fields.includes(field)) return;
+        if (value) {
+          url.searchParams.set(params[field], value);
+        } else {
+          url.searchParams.delete(params[field]);
+        }
+      };
+
+      set('query', state.query);
+      set('filters', state.filters?.length ? serializeFilters(state.filters) : undefined);
+      set('path', state.path?.length ? serializePath(state.path) : undefined);
+
+      if (url.href !== window.location.href) {
+        window.history.replaceState(window.history.state, '', url.href);
+      }
+    },
+    subscribe: onChange => {
+      if (typeof window === 'undefined') return () => {};
+
+      const handlePopState = () => onChange(load());
+      window.addEventListener('popstate', handlePopState);
+      return () => window.removeEventListener('popstate', handlePopState);
+    },
+  };
+};
+
+const createStoragePersistence = (
+  name: string,
+  getStorage: () => Storage | undefined,
+  key: string,
+  fields: PersistedField[]
+): PersistenceAdapter => {
+  const parse = (serialized: string | null): PersistedPlatformState => {
+    if (!serialized) return {};
+
+    try {
+      const stored = JSON.parse(serialized);
+      const state: PersistedPlatformState = {};
+      if (typeof stored.query === 'string') state.query = stored.query;
+      if (typeof stored.filters === 'string') state.filters = deserializeFilters(stored.filters);
+      if (typeof stored.path === 'string') state.path = deserializePath(stored.path);
+      return pick(state, fields);
+    } catch (error) {
+      console.warn(`[PlatformContext] Ignoring malformed ${name} state:`, error);
+      return {};
+    }
+  };
+
+  return {
+    name,
+    fields,
+    load: () => {
+      try {
+        return parse(getStorage()?.getItem(key) ?? null);
+      } catch (error) {
+        // Storage access throws when blocked (e.g. disabled cookies)
+        console.warn(`[PlatformContext] Could not read ${name}:`, error);
+        return {};
+      }
+    },
+    save: state => {
+      const picked = pick(state, fields);
+      try {
+        getStorage()?.setItem(
+          key,
+          JSON.stringify({
+            query: picked.query,
+            filters: picked.filters && serializeFilters(picked.filters),
+            path: picked.path && serializePath(picked.path),
+          })
+        );
+      } catch (error) {
+        console.warn(`[PlatformContext] Could not write ${name}:`, error);
+      }
+    },
+    subscribe: onChange => {
+      if (typeof window === 'undefined') return () => {};
+
+      // Only fired for localStorage changes made in other windows
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key && event.storageArea === getStorage()) {
+          onChange(parse(event.newValue));
+        }
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
+
+/**
+ * Keep state in sessionStorage: survives a refresh, scoped to the browser tab
+ *
+ * @param key - Storage key (default: 'platform-state')
+ */
+export const createSessionStoragePersistence = (
+  key = 'platform-state',
+  options: PersistenceOptions = {}
+): PersistenceAdapter =>
+  createStoragePersistence(
+    'sessionStorage',
+    () => (typeof window === 'undefined' ? undefined : window.sessionStorage),
+    key,
+    options.fields || ALL_FIELDS
+  );
+
+/**
+ * Keep state in localStorage: survives closing the browser and is shared by
+ * all windows of the platform
+ *
+ * @param key - Storage key (default: 'platform-state')
+ */
+export const createLocalStoragePersistence = (
+  key = 'platform-state',
+  options: PersistenceOptions = {}
+): PersistenceAdapter =>
+  createStoragePersistence(
+    'localStorage',
+    () => (typeof window === 'undefined' ? undefined : window.localStorage),
+    key,
+    options.fields || ALL_FIELDS
+  );
+
+/**
+ * Hydrate from several adapters; for each field the first adapter that has a
+ * value wins
+ */
+export const loadPersistedState = (adapters: PersistenceAdapter[]): PersistedPlatformState =>
+  adapters.reduce<PersistedPlatformState>((state, adapter) => {
+    try {
+      return { ...pick(adapter.load(), adapter.fields), ...state };
+    } catch (error) {
+      console.warn(`[PlatformContext] Could not load state from ${adapter.name}:`, error);
+      return state;
+    }
+  }, {});
@@ -0,0 +1,147 @@
+import { publishEvent, subscribeToEvent } from './EventBus';
+
+/**
+ * Request/response pairs that MFEs can ask each other for
+ *
+ * Extend this map (via declaration merging) to add requests.
+ */
+export interface PlatformRequests {
+  'hubs:resolve-names': {
+    request: { hubIds: string[] };
+    response: Record<string, string>; // hub id -> hub name
+  };
+  'files:get-metadata': {
+    request: { fileIds: string[] };
+    response: Array<{ id: string; name: string; size?: number; mimeType?: string }>;
+  };
+}
+
+export type PlatformRequestName = keyof PlatformRequests;
+
+export type RequestPayload<K extends PlatformRequestName> = PlatformRequests[K]['request'];
+export type ResponsePayload<K extends PlatformRequestName> = PlatformRequests[K]['response'];
+
+export type PlatformRequestErrorCode = 'NO_RESPONDER' | 'TIMEOUT' | 'DUPLICATE_RESPONDER' | 'RESPONDER_FAILED';
+
+/**
+ * Error raised by request() and respond()
+ *
+ * Check `code` to tell a missing responder from a slow or failing one.
+ */
+export class PlatformRequestError extends Error {
+  constructor(
+    public readonly code: PlatformRequestErrorCode,
+    public readonly request: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PlatformRequestError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Kept on globalThis so every copy of this module sees the same responders
+const RESPONDERS_KEY = '__PLATFORM_REQUEST_RESPONDERS__';
+
+type GlobalWithResponders = typeof globalThis & { [RESPONDERS_KEY]?: Set<string> };
+
+const getResponders = (): Set<string> =>
+  (globalThis as GlobalWithResponders)[RESPONDERS_KEY] ??
+  ((globalThis as GlobalWithResponders)[RESPONDERS_KEY] = new Set());
+
+let requestCounter = 0;
+
+const createRequestId = () => `${Date.now().toString(36)}-${(requestCounter++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Answer a request from other MFEs
+ *
+ * Only one responder may be registered per request name, so callers always
+ * get exactly one answer.
+ *
+ * @throws PlatformRequestError (DUPLICATE_RESPONDER) when another responder is registered
+ * @returns function that unregisters the responder
+ *
+ * @example
+ * const stopResponding = respond('hubs:resolve-names', async ({ hubIds }) =>
+ *   Object.fromEntries(hubIds.map(id => [id, hubsById[id]?.name]))
+ * );
+ */
+export const respond = <K extends PlatformRequestName>(
+  name: K,
+  handler: (payload: RequestPayload<K>) => ResponsePayload<K> | Promise<ResponsePayload<K>>
+): (() => void) => {
+  const responders = getResponders();
+  if (responders.has(name)) {
+    throw new PlatformRequestError('DUPLICATE_RESPONDER', name, `A responder for "${name}" is already registered`);
+  }
+  responders.add(name);
+
+  const unsubscribe = subscribeToEvent('request:sent', async ({ requestId, name: requested, payload }) => {
+    if (requested !== name) return;
+
+    try {
+      const response = await handler(payload as RequestPayload<K>);
+      publishEvent('request:responded', { requestId, name, response, timestamp: new Date() });
+    } catch (error) {
+      publishEvent('request:responded', {
+        requestId,
+        name,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      });
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    responders.delete(name);
+  };
+};
+
+/**
+ * Ask another MFE for data
+ *
+ * @param options.timeout - Milliseconds to wait for the answer (default: 5000)
+ * @throws PlatformRequestError with code NO_RESPONDER, TIMEOUT or RESPONDER_FAILED
+ *
+ * @example
+ * const names = await request('hubs:resolve-names', { hubIds: ['hub-1'] }, { timeout: 2000 });
+ */
+export const request = <K extends PlatformRequestName>(
+  name: K,
+  payload: RequestPayload<K>,
+  options: { timeout?: number } = {}
+): Promise<ResponsePayload<K>> => {
+  if (!getResponders().has(name)) {
+    return Promise.reject(
+      new PlatformRequestError('NO_RESPONDER', name, `No responder registered for "${name}"`)
+    );
+  }
+
+  const requestId = createRequestId();
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+
+  return new Promise<ResponsePayload<K>>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new PlatformRequestError('TIMEOUT', name, `Request "${name}" timed out after ${timeout}ms`));
+    }, timeout);
+
+    const unsubscribe = subscribeToEvent('request:responded', result => {
+      if (result.requestId !== requestId) return;
+
+      clearTimeout(timer);
+      unsubscribe();
+
+      if (result.error !== undefined) {
+        reject(new PlatformRequestError('RESPONDER_FAILED', name, `Responder for "${name}" failed: ${result.error}`));
+      } else {
+        resolve(result.response as ResponsePayload<K>);
+      }
+    });
+
+    publishEvent('request:sent', { requestId, name, payload, timestamp: new Date() });
+  });
+};
@@ -36,6 +36,9 @@ const EXPOSES = {
   './ContentPicker': './src/components/ContentPicker',
   './Breadcrumbs': './src/components/Breadcrumbs',
   './NavigationService': './src/services/NavigationService',
+  './ErrorBoundary': './src/components/ErrorBoundary',
+  './EventBusDevtools': './src/components/EventBusDevtools',
+  './Version': './src/version',
 };
 
 function ensureDir(dir) {
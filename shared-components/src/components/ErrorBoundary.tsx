@@ -0,0 +1,153 @@
+import React from 'react';
+
+/**
+ * Error details passed to the telemetry hook
+ */
+export interface ErrorReport {
+  boundary: string;
+  error: Error;
+  componentStack?: string;
+  timestamp: Date;
+}
+
+export type ErrorReporter = (report: ErrorReport) => void;
+
+const consoleReporter: ErrorReporter = ({ boundary, error, componentStack }) => {
+  console.error(`[ErrorBoundary] ${boundary} crashed:`, error, componentStack);
+};
+
+let errorReporter: ErrorReporter = consoleReporter;
+
+/**
+ * Route errors caught by every ErrorBoundary to a telemetry service
+ *
+ * shared-components is a singleton, so one call in the host applies to all
+ * boundaries, including those rendered by remotes. Pass null to restore the
+ * default console reporter.
+ */
+export const setErrorReporter = (reporter: ErrorReporter | null): void => {
+  errorReporter = reporter || consoleReporter;
+};
+
+export interface ErrorBoundaryProps {
+  name: string; // Shown in the failure card and sent with error reports
+  children: React.ReactNode;
+  onRetry?: () => void | Promise<void>; // e.g. re-fetch the remoteEntry before re-rendering
+  resetKeys?: unknown[]; // Clear the error when any of these change
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+  retrying: boolean;
+  retryError: string | null;
+  attempt: number;
+}
+
+/**
+ * Error boundary for micro-frontend sections
+ *
+ * Catches render errors in its subtree, reports them through the telemetry
+ * hook and shows a failure card with a retry button. Retry runs onRetry (if
+ * given) and then remounts the children.
+ */
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null, retrying: false, retryError: null, attempt: 0 };
+
+  private isUnmounted = false;
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo): void {
+    try {
+      errorReporter({
+        boundary: this.props.name,
+        error,
+        componentStack: info.componentStack || undefined,
+        timestamp: new Date(),
+      });
+    } catch (reporterError) {
+      console.error('[ErrorBoundary] Error reporter failed:', reporterError);
+    }
+  }
+
+  componentDidUpdate(prevProps: ErrorBoundaryProps): void {
+    const { resetKeys = [] } = this.props;
+    const prevKeys = prevProps.resetKeys || [];
+    const changed =
+      resetKeys.length !== prevKeys.length || resetKeys.some((key, index) => !Object.is(key, prevKeys[index]));
+
+    if (this.state.error && changed) {
+      this.setState(state => ({ error: null, retryError: null, attempt: state.attempt + 1 }));
+    }
+  }
+
+  componentWillUnmount(): void {
+    this.isUnmounted = true;
+  }
+
+  private handleRetry = async () => {
+    this.setState({ retrying: true, retryError: null });
+
+    try {
+      await this.props.onRetry?.();
+      if (!this.isUnmounted) {
+        this.setState(state => ({ error: null, retrying: false, attempt: state.attempt + 1 }));
+      }
+    } catch (error) {
+      if (!this.isUnmounted) {
+        this.setState({ retrying: false, retryError: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+
+  render() {
+    const { error, retrying, retryError, attempt } = this.state;
+
+    if (!error) {
+      // Keyed by attempt so a retry remounts the subtree from scratch
+      return <React.Fragment key={attempt}>{this.props.children}</React.Fragment>;
+    }
+
+    // Box design system - Failure card styles
+    const cardStyles: React.CSSProperties = {
+      margin: '40px auto',
+      maxWidth: '480px',
+      padding: '20px',
+      backgroundColor: '#ffffff',
+      border: '1px solid #e2e2e2',
+      borderLeft: '4px solid #ed3757',
+      borderRadius: '4px',
+      fontSize: '13px',
+      color: '#222222',
+    };
+
+    const buttonStyles: React.CSSProperties = {
+      marginTop: '12px',
+      padding: '6px 16px',
+      backgroundColor: '#0061d5',
+      color: '#ffffff',
+      border: 'none',
+      borderRadius: '4px',
+      cursor: retrying ? 'default' : 'pointer',
+      opacity: retrying ? 0.6 : 1,
+      fontSize: '13px',
+    };
+
+    return (
+      <div style={cardStyles} role="alert">
+        <div style={{ fontWeight: 600, marginBottom: '8px' }}>{this.props.name} failed to load</div>
+        <div style={{ color: '#767676', wordBreak: 'break-word' }}>{error.message}</div>
+        {retryError && (
+          <div style={{ color: '#ed3757', marginTop: '8px' }}>Retry failed: {retryError}</div>
+        )}
+        <button style={buttonStyles} onClick={this.handleRetry} disabled={retrying}>
+          {retrying ? 'Retrying...' : 'Retry'}
+        </button>
+      </div>
+    );
+  }
+}
+
+export default ErrorBoundary;
@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  addEventMiddleware,
+  eventBus,
+  publishEvent,
+  type EventRecord,
+  type PlatformEvents,
+} from '@platform/context';
+
+export interface EventBusDevtoolsProps {
+  defaultOpen?: boolean;
+  maxEvents?: number; // Timeline length (default: 200)
+}
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const formatMs = (ms: number) => `${ms.toFixed(ms < 10 ? 2 : 1)}ms`;
+
+const stringifyPayload = (data: unknown) => {
+  try {
+    return JSON.stringify(data, null, 2);
+  } catch (error) {
+    return `Payload could not be serialized: ${error instanceof Error ? error.message : String(error)}`;
+  }
+};
+
+/**
+ * EventBusDevtools Component
+ *
+ * Development overlay for the platform event bus. Shows a live, filterable
+ * timeline of every published event with its source MFE, subscriber count and
+ * handler durations, an inspector for the selected payload, and can re-emit a
+ * captured event. Captures events through a wildcard subscription, so events
+ * emitted on the bus directly show up too (with an unknown source); its own
+ * handler is included in the subscriber count and durations.
+ *
+ * Render it in development builds only.
+ *
+ * @example
+ * ```tsx
+ * {process.env.NODE_ENV !== 'production' && <EventBusDevtools />}
+ * ```
+ */
+export const EventBusDevtools: React.FC<EventBusDevtoolsProps> = ({ defaultOpen = false, maxEvents = 200 }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [records, setRecords] = useState<EventRecord[]>([]);
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let nextId = 1;
+    let active = true;
+    // Captured events waiting for their delivery results, keyed by payload
+    const pending = new Map<unknown, EventRecord>();
+
+    // Events can be published while another component renders (e.g. from a
+    // setState updater), so apply updates after the publisher has finished
+    const updateRecords = (update: (prev: EventRecord[]) => EventRecord[]) => {
+      queueMicrotask(() => {
+        if (active) setRecords(update);
+      });
+    };
+
+    const handleEvent = (event: keyof PlatformEvents, data: unknown) => {
+      const record: EventRecord = {
+        id: nextId++,
+        event,
+        data: data as PlatformEvents[typeof event],
+        source: 'unknown',
+        timestamp: Date.now(),
+        handlerCount: 0,
+        durationMs: 0,
+        handlerDurationsMs: [],
+      };
+      pending.set(data, record);
+      // publishEvent runs afterPublish synchronously; anything still pending was emitted directly
+      queueMicrotask(() => pending.delete(data));
+      updateRecords(prev => [...prev, record].slice(-maxEvents));
+    };
+
+    // Source and handler timings are only known once publishEvent has delivered the event
+    const removeMiddleware = addEventMiddleware({
+      name: 'devtools',
+      afterPublish: (context, result) => {
+        const record = pending.get(context.data);
+        if (!record) return;
+        pending.delete(context.data);
+
+        const complete = { ...record, source: context.source, timestamp: context.timestamp, ...result };
+        updateRecords(prev => prev.map(item => (item.id === record.id ? complete : item)));
+      },
+    });
+
+    eventBus.on('*', handleEvent);
+    return () => {
+      active = false;
+      eventBus.off('*', handleEvent);
+      removeMiddleware();
+    };
+  }, [maxEvents]);
+
+  const visibleRecords = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    const matching = term
+      ? records.filter(
+          record => record.event.toLowerCase().includes(term) || record.source.toLowerCase().includes(term)
+        )
+      : records;
+    return [...matching].reverse(); // Newest first
+  }, [records, filter]);
+
+  const selected = records.find(record => record.id === selectedId) || null;
+
+  const handleClear = () => {
+    setRecords([]);
+    setSelectedId(null);
+  };
+
+  const handleReemit = (record: EventRecord) => {
+    publishEvent(record.event, record.data as PlatformEvents[typeof record.event], 'devtools');
+  };
+
+  // Box design system styles
+  const toggleStyles: React.CSSProperties = {
+    position: 'fixed',
+    right: '16px',
+    bottom: '16px',
+    zIndex: 2000,
+    padding: '8px 12px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#222222',
+    color: '#ffffff',
+    fontSize: '12px',
+    fontWeight: 600,
+    cursor: 'pointer',
+    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.2)',
+  };
+
+  const panelStyles: React.CSSProperties = {
+    position: 'fixed',
+    right: '16px',
+    bottom: '56px',
+    zIndex: 2000,
+    width: '720px',
+    maxWidth: 'calc(100vw - 32px)',
+    height: '420px',
+    display: 'flex',
+    flexDirection: 'column',
+    backgroundColor: '#ffffff',
+    border: '1px solid #e8e8e8',
+    borderRadius: '8px',
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.15)',
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    fontSize: '12px',
+    color: '#222222',
+    overflow: 'hidden',
+  };
+
+  const headerStyles: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '8px 12px',
+    borderBottom: '1px solid #e8e8e8',
+    backgroundColor: '#f7f7f8',
+  };
+
+  const inputStyles: React.CSSProperties = {
+    flex: 1,
+    padding: '4px 8px',
+    border: '1px solid #d3d3d3',
+    borderRadius: '4px',
+    fontSize: '12px',
+  };
+
+  const buttonStyles: React.CSSProperties = {
+    padding: '4px 10px',
+    border: '1px solid #d3d3d3',
+    borderRadius: '4px',
+    backgroundColor: '#ffffff',
+    fontSize: '12px',
+    cursor: 'pointer',
+  };
+
+  const rowStyles = (isSelected: boolean): React.CSSProperties => ({
+    display: 'grid',
+    gridTemplateColumns: '90px 1fr 110px 40px 64px',
+    gap: '8px',
+    padding: '4px 12px',
+    cursor: 'pointer',
+    backgroundColor: isSelected ? '#e9f2fe' : 'transparent',
+    borderBottom: '1px solid #f4f4f4',
+    fontFamily: 'Menlo, Monaco, Consolas, monospace',
+  });
+
+  const mutedStyles: React.CSSProperties = { color: '#767676' };
+
+  const codeStyles: React.CSSProperties = {
+    margin: 0,
+    padding: '8px',
+    backgroundColor: '#f7f7f8',
+    borderRadius: '4px',
+    fontFamily: 'Menlo, Monaco, Consolas, monospace',
+    fontSize: '11px',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+  };
+
+  return (
+    <>
+      <button type="button" style={toggleStyles} onClick={() => setIsOpen(open => !open)}>
+        {isOpen ? 'Close event bus' : `Event bus (${records.length})`}
+      </button>
+
+      {isOpen && (
+        <div style={panelStyles} role="dialog" aria-label="Event bus devtools">
+          <div style={headerStyles}>
+            <strong>Event bus</strong>
+            <input
+              type="search"
+              placeholder="Filter by event or source"
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              style={inputStyles}
+            />
+            <button type="button" style={buttonStyles} onClick={handleClear}>
+              Clear
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', flex: 1, minHeight: 0 }}>
+            <div style={{ flex: 3, overflowY: 'auto', borderRight: '1px solid #e8e8e8' }}>
+              <div style={{ ...rowStyles(false), ...mutedStyles, cursor: 'default', fontFamily: 'inherit' }}>
+                <span>Time</span>
+                <span>Event</span>
+                <span>Source</span>
+                <span title="Subscribers">Subs</span>
+                <span>Duration</span>
+              </div>
+              {visibleRecords.length === 0 && (
+                <div style={{ padding: '16px 12px', ...mutedStyles }}>No events captured</div>
+              )}
+              {visibleRecords.map(record => (
+                <div
+                  key={record.id}
+                  style={rowStyles(record.id === selectedId)}
+                  onClick={() => setSelectedId(record.id)}
+                >
+                  <span style={mutedStyles}>{formatTime(record.timestamp)}</span>
+                  <span>{record.event}</span>
+                  <span style={mutedStyles}>{record.source}</span>
+                  <span>{record.handlerCount}</span>
+                  <span>{formatMs(record.durationMs)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div style={{ flex: 2, overflowY: 'auto', padding: '12px' }}>
+              {selected ? (
+                <>
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <strong>{selected.event}</strong>
+                    <button type="button" style={buttonStyles} onClick={() => handleReemit(selected)}>
+                      Re-emit
+                    </button>
+                  </div>
+                  <p style={{ ...mutedStyles, margin: '4px 0 8px' }}>
+                    From {selected.source} at {formatTime(selected.timestamp)}
+                  </p>
+                  <pre style={codeStyles}>{stringifyPayload(selected.data)}</pre>
+                  <p style={{ margin: '12px 0 4px', fontWeight: 600 }}>
+                    Handlers ({selected.handlerCount}), {formatMs(selected.durationMs)} total
+                  </p>
+                  {selected.handlerDurationsMs.length === 0 ? (
+                    <p style={{ ...mutedStyles, margin: 0 }}>No subscribers</p>
+                  ) : (
+                    <ol style={{ margin: 0, paddingLeft: '20px' }}>
+                      {selected.handlerDurationsMs.map((duration, index) => (
+                        <li key={index}>{formatMs(duration)}</li>
+                      ))}
+                    </ol>
+                  )}
+                </>
+              ) : (
+                <p style={{ ...mutedStyles, margin: 0 }}>Select an event to inspect its payload</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
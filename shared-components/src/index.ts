@@ -13,6 +13,14 @@ export { ContentPicker, type ContentPickerProps, type ContentLocation } from './
 export { Breadcrumbs, type BreadcrumbsProps, type BreadcrumbItem } from './components/Breadcrumbs';
 export { Preview, type PreviewProps } from './components/Preview';
 export { HighlightText, type HighlightTextProps } from './components/HighlightText';
+export {
+  ErrorBoundary,
+  setErrorReporter,
+  type ErrorBoundaryProps,
+  type ErrorReport,
+  type ErrorReporter,
+} from './components/ErrorBoundary';
+export { EventBusDevtools, type EventBusDevtoolsProps } from './components/EventBusDevtools';
 export { type ContentItem } from './components/types';
 
 // Services
@@ -18,6 +18,17 @@ export interface NavigationContextValue {
    */
   goBack?: () => void;
 
+  /**
+   * Navigate forward again after goBack
+   */
+  goForward?: () => void;
+
+  /**
+   * Whether goBack/goForward have an entry to move to
+   */
+  canGoBack: boolean;
+  canGoForward: boolean;
+
   /**
    * Navigate with state
    */
@@ -31,6 +42,9 @@ export interface NavigationProviderProps {
   currentSection: NavigationTarget;
   onNavigate: (target: NavigationTarget, params?: Record<string, any>) => void;
   onGoBack?: () => void;
+  onGoForward?: () => void;
+  canGoBack?: boolean; // Default: true when onGoBack is given
+  canGoForward?: boolean; // Default: true when onGoForward is given
 }
 
 /**
@@ -45,6 +59,8 @@ export interface NavigationProviderProps {
  * <NavigationProvider
  *   currentSection={activeSection}
  *   onNavigate={(target) => setActiveSection(target)}
+ *   onGoBack={() => dispatch(goBack())}
+ *   canGoBack={canGoBack}
  * >
  *   <App />
  * </NavigationProvider>
@@ -55,6 +71,9 @@ export const NavigationProvider: React.FC<NavigationProviderProps> = ({
   currentSection,
   onNavigate,
   onGoBack,
+  onGoForward,
+  canGoBack = !!onGoBack,
+  canGoForward = !!onGoForward,
 }) => {
   const navigateWithState = (target: NavigationTarget, state: any) => {
     onNavigate(target, { state });
@@ -64,6 +83,9 @@ export const NavigationProvider: React.FC<NavigationProviderProps> = ({
     navigateTo: onNavigate,
     currentSection,
     goBack: onGoBack,
+    goForward: onGoForward,
+    canGoBack,
+    canGoForward,
     navigateWithState,
   };
 
@@ -0,0 +1,12 @@
+// Injected by webpack DefinePlugin from package.json
+declare const __SHARED_COMPONENTS_VERSION__: string;
+
+/**
+ * Version of the shared-components build that is actually running
+ *
+ * Hosts compare this against each tab's TabConfig.componentVersion
+ * before mounting the tab.
+ */
+export const version: string = __SHARED_COMPONENTS_VERSION__;
+
+export default version;
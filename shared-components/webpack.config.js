@@ -1,3 +1,4 @@
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const { ModuleFederationPlugin } = require('@module-federation/enhanced/webpack');
 const path = require('path');
@@ -65,6 +66,9 @@ module.exports = (env, argv) => {
           './NavigationService': './src/services/NavigationService',
           './Preview': './src/components/Preview',
           './HighlightText': './src/components/HighlightText',
+          './ErrorBoundary': './src/components/ErrorBoundary',
+          './EventBusDevtools': './src/components/EventBusDevtools',
+          './Version': './src/version',
         },
         shared: {
           react: {
@@ -77,11 +81,19 @@ module.exports = (env, argv) => {
             requiredVersion: packageJson.dependencies['react-dom'],
             strictVersion: false,
           },
+          '@platform/context': {
+            singleton: true,
+            requiredVersion: packageJson.dependencies['@platform/context'],
+            strictVersion: false,
+          },
         },
         // Module Federation 2.0 features
         shareStrategy: 'version-first',
         dts: false, // Disabled temporarily for dev server stability
       }),
+      new webpack.DefinePlugin({
+        __SHARED_COMPONENTS_VERSION__: JSON.stringify(packageJson.version),
+      }),
       new HtmlWebpackPlugin({
         template: './public/index.html',
         title: 'Shared Components Library',
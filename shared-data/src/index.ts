@@ -3,6 +3,11 @@ export { createStore, type DynamicStore, type StoreState, type AppDispatch } fro
 export * from './store/slices/filtersSlice';
 export * from './store/slices/selectionSlice';
 export * from './store/slices/navigationSlice';
+export * from './store/undoHistory';
+export * from './store/browserHistory';
+export * from './store/tabScope';
+export * from './store/filterAdapters';
+export * from './store/hooks';
 
 // Context
 export { PlatformContextProvider, usePlatformContext, type PlatformContextValue } from './context/PlatformContext';
@@ -0,0 +1,83 @@
+import type { Store } from '@reduxjs/toolkit';
+import { replaceEntry, syncNavigation, type NavigationEntry, type NavigationState } from './slices/navigationSlice';
+
+/**
+ * Browser history integration for the navigation slice
+ *
+ * Every navigation entry in the store is a browser history entry. Navigating
+ * in the store pushes a URL; browser back/forward (and goBack/goForward
+ * dispatched by the app, which are delegated to the browser) move through
+ * the store's stacks.
+ */
+
+export interface BrowserHistoryOptions {
+  toUrl: (entry: NavigationEntry) => string; // URL for an entry
+  fromUrl: (location: Location) => NavigationEntry; // Entry for the current URL
+}
+
+/**
+ * Keep the store's navigation history in sync with window.history
+ *
+ * The entry for the page's URL replaces the initial entry, so a deep link
+ * opens where it points.
+ *
+ * @returns Function that stops syncing
+ *
+ * @example
+ * const store = createStore();
+ * syncNavigationWithBrowser(store, {
+ *   toUrl: ({ tab }) => `?tab=${tab}`,
+ *   fromUrl: location => ({ tab: new URLSearchParams(location.search).get('tab') || 'content', path: '/' }),
+ * });
+ */
+export const syncNavigationWithBrowser = (store: Store, options: BrowserHistoryOptions): (() => void) => {
+  const getNavigation = () => store.getState().navigation as NavigationState;
+  const currentEntry = (navigation: NavigationState) => navigation.history[navigation.history.length - 1];
+
+  // Set while applying a browser change, which must not be written back
+  let fromBrowser = true;
+  store.dispatch(replaceEntry(options.fromUrl(window.location)));
+  fromBrowser = false;
+
+  let previous = getNavigation();
+
+  const unsubscribe = store.subscribe(() => {
+    const navigation = getNavigation();
+    const before = previous;
+    previous = navigation;
+
+    const entry = currentEntry(navigation);
+    const previousEntry = currentEntry(before);
+    if (fromBrowser || entry === previousEntry) {
+      return;
+    }
+
+    // Entries are immutable, so identity tells how the stacks moved
+    if (navigation.forward[navigation.forward.length - 1] === previousEntry) {
+      window.history.back();
+    } else if (before.forward[before.forward.length - 1] === entry) {
+      window.history.forward();
+    } else if (navigation.history[navigation.history.length - 2] === previousEntry) {
+      window.history.pushState(null, '', options.toUrl(entry));
+    } else {
+      // Replaced or restored (e.g. undo): reflect it without adding history
+      window.history.replaceState(null, '', options.toUrl(entry));
+    }
+  });
+
+  const handlePopState = () => {
+    fromBrowser = true;
+    try {
+      store.dispatch(syncNavigation(options.fromUrl(window.location)));
+    } finally {
+      fromBrowser = false;
+    }
+  };
+
+  window.addEventListener('popstate', handlePopState);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('popstate', handlePopState);
+  };
+};
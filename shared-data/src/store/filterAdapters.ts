@@ -0,0 +1,52 @@
+import type { Filter } from '@platform/context';
+import type { FilterValue } from './slices/filtersSlice';
+
+/**
+ * Adapters between the two filter models
+ *
+ * The store keeps FilterValue ({ field, operator, value }). PlatformContext
+ * events and the former @platform/shared-state package use Filter
+ * ({ id, type, label, value }). A filter's id maps to the field. An equality
+ * filter keeps its value as the Filter value; any other operator, negation,
+ * or a value that itself looks encoded, travels as a tagged
+ * { [ENCODED]: true, operator, value, negate } object. Field, operator, value
+ * and negation survive converting back and forth; a missing type or label
+ * comes back as the field.
+ */
+
+const ENCODED = '@@filterValue';
+
+interface EncodedFilterValue extends Pick<FilterValue, 'operator' | 'value' | 'negate'> {
+  [ENCODED]: true;
+}
+
+const isEncoded = (value: unknown): value is EncodedFilterValue =>
+  !!value && typeof value === 'object' && (value as EncodedFilterValue)[ENCODED] === true;
+
+/**
+ * Filter (PlatformContext) -> FilterValue (store)
+ */
+export const toFilterValue = (filter: Filter): FilterValue => {
+  const { operator, value, negate } = isEncoded(filter.value)
+    ? filter.value
+    : { operator: 'equals' as const, value: filter.value, negate: undefined };
+
+  return { field: filter.id, operator, value, type: filter.type, label: filter.label, ...(negate && { negate }) };
+};
+
+/**
+ * FilterValue (store) -> Filter (PlatformContext)
+ */
+export const toContextFilter = ({ field, operator, value, type, label, negate }: FilterValue): Filter => ({
+  id: field,
+  type: type ?? field,
+  label: label ?? field,
+  value:
+    operator === 'equals' && !negate && !isEncoded(value)
+      ? value
+      : { [ENCODED]: true, operator, value, ...(negate && { negate }) },
+});
+
+export const toFilterValues = (filters: Filter[]): FilterValue[] => filters.map(toFilterValue);
+
+export const toContextFilters = (filterValues: FilterValue[]): Filter[] => filterValues.map(toContextFilter);
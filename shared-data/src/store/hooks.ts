@@ -0,0 +1,81 @@
+import { useCallback } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { Filter } from '@platform/context';
+import {
+  setSearchText,
+  setFilter,
+  setFilters,
+  removeFilter,
+  clearFilters,
+  updateResults,
+  selectSearchText,
+  selectContextFilters,
+  selectSearchResults,
+  type SearchResults,
+} from './slices/filtersSlice';
+import {
+  selectAll,
+  selectRange,
+  toggleSelection,
+  clearSelection,
+  selectSelectedIds,
+  selectLastSelectedId,
+} from './slices/selectionSlice';
+import { toFilterValue, toFilterValues } from './filterAdapters';
+
+/**
+ * Search and filters, in the PlatformContext Filter model
+ *
+ * Same API as the former @platform/shared-state hook, backed by the shared
+ * store's filters slice.
+ *
+ * @example
+ * const { query, filters, setQuery, addFilter } = useReduxSearch();
+ */
+export const useReduxSearch = () => {
+  const dispatch = useDispatch();
+  const query = useSelector(selectSearchText);
+  const filters = useSelector(selectContextFilters);
+  const results = useSelector(selectSearchResults);
+
+  return {
+    query,
+    filters,
+    results,
+    setQuery: useCallback((text: string) => dispatch(setSearchText(text)), [dispatch]),
+    setFilters: useCallback((newFilters: Filter[]) => dispatch(setFilters(toFilterValues(newFilters))), [dispatch]),
+    addFilter: useCallback((filter: Filter) => dispatch(setFilter(toFilterValue(filter))), [dispatch]),
+    removeFilter: useCallback((filterId: string) => dispatch(removeFilter(filterId)), [dispatch]),
+    clearAll: useCallback(() => dispatch(clearFilters()), [dispatch]),
+    updateResults: useCallback((counts: Partial<SearchResults>) => dispatch(updateResults(counts)), [dispatch]),
+  };
+};
+
+/**
+ * Selection of content items
+ *
+ * Same API as the former @platform/shared-state hook, backed by the shared
+ * store's selection slice.
+ *
+ * @example
+ * const { selectedIds, toggleSelection, selectRange } = useReduxSelection();
+ */
+export const useReduxSelection = () => {
+  const dispatch = useDispatch();
+  const selectedIds = useSelector(selectSelectedIds);
+  const lastSelectedId = useSelector(selectLastSelectedId);
+
+  return {
+    selectedIds,
+    lastSelectedId: lastSelectedId ?? null,
+    count: selectedIds.length,
+    setSelection: useCallback((ids: string[]) => dispatch(selectAll(ids)), [dispatch]),
+    toggleSelection: useCallback((id: string) => dispatch(toggleSelection(id)), [dispatch]),
+    selectAll: useCallback((ids: string[]) => dispatch(selectAll(ids)), [dispatch]),
+    selectRange: useCallback(
+      (allIds: string[], endId: string) => dispatch(selectRange({ allIds, endId })),
+      [dispatch]
+    ),
+    clearSelection: useCallback(() => dispatch(clearSelection()), [dispatch]),
+  };
+};
@@ -2,17 +2,89 @@ import { configureStore, combineReducers, Reducer, AnyAction, EnhancedStore } fr
 import filtersReducer from './slices/filtersSlice';
 import selectionReducer from './slices/selectionSlice';
 import navigationReducer from './slices/navigationSlice';
+import { undoHistoryReducer, withUndoHistory, DEFAULT_UNDO_CONFIG, type UndoHistoryConfig } from './undoHistory';
+import { tabReducerKey, getActionTabId } from './tabScope';
 
 // Re-export actions for external use
-export { setSearchText, setFilter, removeFilter, clearFilters, setDateRange, setContentType } from './slices/filtersSlice';
-export { selectItem, deselectItem, toggleSelection, selectAll, clearSelection, setSelectionType } from './slices/selectionSlice';
-export { navigate, setBreadcrumbs, setActiveTab, goBack } from './slices/navigationSlice';
+export {
+  setSearchText,
+  setFilter,
+  setFilters,
+  removeFilter,
+  setFilterGroup,
+  removeFilterGroup,
+  clearFilters,
+  setDateRange,
+  setContentType,
+  updateResults,
+  selectSearchText,
+  selectActiveFilters,
+  selectFilterGroups,
+  selectContextFilters,
+  selectSearchResults,
+  type FilterValue,
+  type FilterGroup,
+  type FiltersState,
+  type SearchResults,
+} from './slices/filtersSlice';
+export {
+  selectItem,
+  deselectItem,
+  toggleSelection,
+  selectAll,
+  restoreSelection,
+  selectRange,
+  clearSelection,
+  setSelectionType,
+  selectSelectedIds,
+  selectLastSelectedId,
+  selectSelectionCount,
+  type SelectionState,
+} from './slices/selectionSlice';
+export {
+  navigate,
+  setBreadcrumbs,
+  setActiveTab,
+  goBack,
+  goForward,
+  syncNavigation,
+  replaceEntry,
+  saveTabState,
+  selectCanGoBack,
+  selectCanGoForward,
+  type NavigationEntry,
+  type TabViewState,
+} from './slices/navigationSlice';
+export { toFilterValue, toContextFilter, toFilterValues, toContextFilters } from './filterAdapters';
+export { useReduxSearch, useReduxSelection } from './hooks';
+export { syncNavigationWithBrowser, type BrowserHistoryOptions } from './browserHistory';
+export {
+  TabScopeProvider,
+  useTabSelector,
+  useTabDispatch,
+  tabReducerKey,
+  type SharedSlices,
+  type TabScopeProviderProps,
+} from './tabScope';
+export {
+  undo,
+  redo,
+  clearUndoHistory,
+  selectCanUndo,
+  selectCanRedo,
+  DEFAULT_UNDO_CONFIG,
+  type UndoHistoryConfig,
+  type UndoHistoryState,
+  type UndoSliceConfig,
+  type UndoableSlice,
+} from './undoHistory';
 
 // Base reducer configuration
 const staticReducers = {
   filters: filtersReducer,
   selection: selectionReducer,
   navigation: navigationReducer,
+  undoHistory: undoHistoryReducer,
 };
 
 export type RootState = ReturnType<typeof createRootReducer>;
@@ -20,10 +92,24 @@ export type RootState = ReturnType<typeof createRootReducer>;
 // Store interface with dynamic reducer injection
 export interface DynamicStore extends EnhancedStore {
   asyncReducers: { [key: string]: Reducer };
-  injectReducer: (key: string, reducer: Reducer) => void;
+  reducerOwners: { [key: string]: string }; // Owner of each injected key (the tab id for tab reducers)
+  /**
+   * Inject a reducer; throws if the key is static or injected by another owner
+   */
+  injectReducer: (key: string, reducer: Reducer, owner?: string) => void;
   removeReducer: (key: string) => void;
+  /**
+   * Inject a tab's reducer under its namespaced key (see tabReducerKey)
+   *
+   * @returns the namespaced key
+   */
+  injectTabReducer: (tabId: string, key: string, reducer: Reducer) => string;
+  removeTabReducers: (tabId: string) => void;
 }
 
+// Injected without an owner
+const HOST_OWNER = 'host';
+
 export type AppDispatch = DynamicStore['dispatch'];
 
 function createRootReducer(asyncReducers = {}) {
@@ -33,9 +119,46 @@ function createRootReducer(asyncReducers = {}) {
   });
 }
 
-export function createStore(preloadedState = {}) {
+/**
+ * Deliver tab-scoped actions (see useTabDispatch) to the owning tab's reducers only
+ */
+const scopeTabActions = (
+  rootReducer: Reducer,
+  asyncReducers: { [key: string]: Reducer },
+  reducerOwners: { [key: string]: string }
+): Reducer => (state, action: AnyAction) => {
+  const tabId = getActionTabId(action);
+  if (!state || tabId === undefined) {
+    return rootReducer(state, action);
+  }
+
+  const next = { ...state };
+  let changed = false;
+  Object.keys(asyncReducers)
+    .filter(key => reducerOwners[key] === tabId)
+    .forEach(key => {
+      next[key] = asyncReducers[key](state[key], action);
+      changed = changed || next[key] !== state[key];
+    });
+
+  return changed ? next : state;
+};
+
+/**
+ * Create the shared store
+ *
+ * @param options.undo - Undo/redo history for the shared slices; false disables it
+ */
+export function createStore(preloadedState = {}, options: { undo?: UndoHistoryConfig | false } = {}) {
+  const undoConfig = options.undo ?? DEFAULT_UNDO_CONFIG;
+  const reducerOwners: { [key: string]: string } = {};
+  const buildReducer = (asyncReducers: { [key: string]: Reducer } = {}): Reducer => {
+    const rootReducer = scopeTabActions(createRootReducer(asyncReducers), asyncReducers, reducerOwners);
+    return undoConfig ? withUndoHistory(rootReducer, undoConfig) : rootReducer;
+  };
+
   const store = configureStore({
-    reducer: createRootReducer(),
+    reducer: buildReducer(),
     preloadedState,
     middleware: (getDefaultMiddleware) =>
       getDefaultMiddleware({
@@ -49,15 +172,23 @@ export function createStore(preloadedState = {}) {
 
   // Add a dictionary to keep track of the async reducers
   store.asyncReducers = {};
+  store.reducerOwners = reducerOwners;
 
   // Create an inject reducer function
-  store.injectReducer = (key: string, asyncReducer: Reducer) => {
+  store.injectReducer = (key: string, asyncReducer: Reducer, owner = HOST_OWNER) => {
+    if (key in staticReducers) {
+      throw new Error(`Reducer key "${key}" is reserved for shared state.`);
+    }
+    if (store.asyncReducers[key] && reducerOwners[key] !== owner) {
+      throw new Error(`Reducer key "${key}" is owned by "${reducerOwners[key]}", not "${owner}".`);
+    }
     if (store.asyncReducers[key]) {
       console.warn(`Reducer with key "${key}" already exists. Replacing it.`);
     }
 
     store.asyncReducers[key] = asyncReducer;
-    store.replaceReducer(createRootReducer(store.asyncReducers));
+    reducerOwners[key] = owner;
+    store.replaceReducer(buildReducer(store.asyncReducers));
 
     console.log(`[Store] Injected reducer: ${key}`);
   };
@@ -70,11 +201,29 @@ export function createStore(preloadedState = {}) {
     }
 
     delete store.asyncReducers[key];
-    store.replaceReducer(createRootReducer(store.asyncReducers));
+    delete reducerOwners[key];
+    store.replaceReducer(buildReducer(store.asyncReducers));
 
     console.log(`[Store] Removed reducer: ${key}`);
   };
 
+  // Tab reducers are namespaced by tab id and owned by the tab
+  store.injectTabReducer = (tabId: string, key: string, asyncReducer: Reducer) => {
+    const namespacedKey = tabReducerKey(tabId, key);
+
+    // Reducers stay injected across activations
+    if (store.asyncReducers[namespacedKey] !== asyncReducer) {
+      store.injectReducer(namespacedKey, asyncReducer, tabId);
+    }
+    return namespacedKey;
+  };
+
+  store.removeTabReducers = (tabId: string) => {
+    Object.keys(reducerOwners)
+      .filter(key => reducerOwners[key] === tabId)
+      .forEach(key => store.removeReducer(key));
+  };
+
   return store;
 }
 
@@ -1,24 +1,51 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { FilterCondition, FilterGroup as ContentFilterGroup } from '@content-platform/data';
+import { toContextFilters } from '../filterAdapters';
 
-export interface FilterValue {
-  field: string;
-  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'gt' | 'lt' | 'between';
+/**
+ * A filter condition as the store keeps it (see FilterCondition in @content-platform/data)
+ */
+export interface FilterValue extends FilterCondition {
   value: any;
+  type?: string; // Kind of filter, kept when converted from a PlatformContext Filter
+  label?: string; // Display label, likewise
+}
+
+/**
+ * Filters combined with AND or OR (see FilterGroup in @content-platform/data);
+ * the state's groups have an id and are combined with the other filters by AND
+ */
+export type FilterGroup = ContentFilterGroup & { id: string };
+
+/**
+ * Number of search hits per content type
+ */
+export interface SearchResults {
+  files: number;
+  folders: number;
+  hubs: number;
+  total: number;
 }
 
 export interface FiltersState {
   active: FilterValue[];
+  groups: FilterGroup[];
   searchText: string;
   dateRange?: {
     start: string;
     end: string;
   };
   contentType?: string;
+  results: SearchResults;
 }
 
+const emptyResults: SearchResults = { files: 0, folders: 0, hubs: 0, total: 0 };
+
 const initialState: FiltersState = {
   active: [],
+  groups: [],
   searchText: '',
+  results: emptyResults,
 };
 
 const filtersSlice = createSlice({
@@ -34,11 +61,28 @@ const filtersSlice = createSlice({
     removeFilter: (state, action: PayloadAction<string>) => {
       state.active = state.active.filter(f => f.field !== action.payload);
     },
+    setFilters: (state, action: PayloadAction<FilterValue[]>) => {
+      state.active = action.payload;
+    },
+    setFilterGroup: (state, action: PayloadAction<FilterGroup>) => {
+      // Replace an existing group with the same id, in place
+      const index = state.groups.findIndex(g => g.id === action.payload.id);
+      if (index === -1) {
+        state.groups.push(action.payload);
+      } else {
+        state.groups[index] = action.payload;
+      }
+    },
+    removeFilterGroup: (state, action: PayloadAction<string>) => {
+      state.groups = state.groups.filter(g => g.id !== action.payload);
+    },
     clearFilters: (state) => {
       state.active = [];
+      state.groups = [];
       state.searchText = '';
       state.dateRange = undefined;
       state.contentType = undefined;
+      state.results = emptyResults;
     },
     setSearchText: (state, action: PayloadAction<string>) => {
       state.searchText = action.payload;
@@ -49,16 +93,34 @@ const filtersSlice = createSlice({
     setContentType: (state, action: PayloadAction<string | undefined>) => {
       state.contentType = action.payload;
     },
+    updateResults: (state, action: PayloadAction<Partial<SearchResults>>) => {
+      state.results = { ...state.results, ...action.payload };
+    },
   },
 });
 
 export const {
   setFilter,
+  setFilters,
   removeFilter,
+  setFilterGroup,
+  removeFilterGroup,
   clearFilters,
   setSearchText,
   setDateRange,
   setContentType,
+  updateResults,
 } = filtersSlice.actions;
 
 export default filtersSlice.reducer;
+
+// Selectors
+export const selectSearchText = (state: { filters: FiltersState }) => state.filters.searchText;
+export const selectActiveFilters = (state: { filters: FiltersState }) => state.filters.active;
+export const selectFilterGroups = (state: { filters: FiltersState }) => state.filters.groups;
+export const selectSearchResults = (state: { filters: FiltersState }) => state.filters.results;
+
+/**
+ * Active filters in the PlatformContext Filter model (see filterAdapters)
+ */
+export const selectContextFilters = createSelector(selectActiveFilters, toContextFilters);
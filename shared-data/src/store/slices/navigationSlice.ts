@@ -1,44 +1,136 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 
+/**
+ * A point in the navigation history: the active tab and the path within it
+ */
+export interface NavigationEntry {
+  tab: string;
+  path: string;
+}
+
+/**
+ * View state saved when leaving a tab and restored when returning to it
+ */
+export interface TabViewState {
+  scrollTop: number;
+  selectedIds: string[];
+}
+
 export interface NavigationState {
   currentPath: string;
   breadcrumbs: Array<{ label: string; path: string }>;
   activeTab: string;
-  history: string[];
+  history: NavigationEntry[]; // Back stack, ending with the current entry
+  forward: NavigationEntry[]; // Entries left with goBack, most recent last
+  tabState: Record<string, TabViewState>;
 }
 
+const MAX_HISTORY = 50;
+
 const initialState: NavigationState = {
   currentPath: '/',
   breadcrumbs: [{ label: 'Home', path: '/' }],
   activeTab: 'content',
-  history: ['/'],
+  history: [{ tab: 'content', path: '/' }],
+  forward: [],
+  tabState: {},
+};
+
+const isSameEntry = (a: NavigationEntry | undefined, b: NavigationEntry) =>
+  !!a && a.tab === b.tab && a.path === b.path;
+
+const apply = (state: NavigationState, entry: NavigationEntry) => {
+  state.activeTab = entry.tab;
+  state.currentPath = entry.path;
+};
+
+const push = (state: NavigationState, entry: NavigationEntry) => {
+  if (isSameEntry(state.history[state.history.length - 1], entry)) {
+    return;
+  }
+
+  state.history.push(entry);
+  state.forward = [];
+  apply(state, entry);
+
+  // Keep history limited to last 50 items
+  if (state.history.length > MAX_HISTORY) {
+    state.history = state.history.slice(-MAX_HISTORY);
+  }
+};
+
+const replace = (state: NavigationState, entry: NavigationEntry) => {
+  state.history[state.history.length - 1] = entry;
+  apply(state, entry);
 };
 
+const back = (state: NavigationState) => {
+  if (state.history.length > 1) {
+    state.forward.push(state.history.pop()!);
+    apply(state, state.history[state.history.length - 1]);
+  }
+};
+
+const forward = (state: NavigationState) => {
+  const entry = state.forward.pop();
+  if (entry) {
+    state.history.push(entry);
+    apply(state, entry);
+  }
+};
+
+// Path last visited in a tab, so returning to a tab lands where it was left
+const lastPathIn = (state: NavigationState, tab: string) =>
+  [...state.history].reverse().find(entry => entry.tab === tab)?.path ?? '/';
+
 const navigationSlice = createSlice({
   name: 'navigation',
   initialState,
   reducers: {
     navigate: (state, action: PayloadAction<string>) => {
-      state.currentPath = action.payload;
-      state.history.push(action.payload);
-
-      // Keep history limited to last 50 items
-      if (state.history.length > 50) {
-        state.history = state.history.slice(-50);
-      }
+      push(state, { tab: state.activeTab, path: action.payload });
     },
     setBreadcrumbs: (state, action: PayloadAction<Array<{ label: string; path: string }>>) => {
       state.breadcrumbs = action.payload;
     },
     setActiveTab: (state, action: PayloadAction<string>) => {
-      state.activeTab = action.payload;
+      if (action.payload !== state.activeTab) {
+        push(state, { tab: action.payload, path: lastPathIn(state, action.payload) });
+      }
     },
-    goBack: (state) => {
-      if (state.history.length > 1) {
-        state.history.pop(); // Remove current
-        state.currentPath = state.history[state.history.length - 1];
+    goBack: back,
+    goForward: forward,
+    /**
+     * Follow a history change made outside the store (browser back/forward):
+     * steps back or forward when the entry is adjacent, otherwise replaces the
+     * current entry. The browser keeps more than MAX_HISTORY entries, so an
+     * unknown entry is usually one trimmed from the store; pushing it would
+     * drop the forward entries the browser still has.
+     */
+    syncNavigation: (state, action: PayloadAction<NavigationEntry>) => {
+      const entry = action.payload;
+      if (isSameEntry(state.history[state.history.length - 1], entry)) {
+        return;
+      }
+
+      if (isSameEntry(state.history[state.history.length - 2], entry)) {
+        back(state);
+      } else if (isSameEntry(state.forward[state.forward.length - 1], entry)) {
+        forward(state);
+      } else {
+        replace(state, entry);
       }
     },
+    /**
+     * Replace the current entry without adding history (e.g. the page's initial URL)
+     */
+    replaceEntry: (state, action: PayloadAction<NavigationEntry>) => {
+      replace(state, action.payload);
+    },
+    saveTabState: (state, action: PayloadAction<{ tab: string } & TabViewState>) => {
+      const { tab, ...viewState } = action.payload;
+      state.tabState[tab] = viewState;
+    },
   },
 });
 
@@ -47,6 +139,14 @@ export const {
   setBreadcrumbs,
   setActiveTab,
   goBack,
+  goForward,
+  syncNavigation,
+  replaceEntry,
+  saveTabState,
 } = navigationSlice.actions;
 
+export const selectCanGoBack = (state: { navigation: NavigationState }) => state.navigation.history.length > 1;
+
+export const selectCanGoForward = (state: { navigation: NavigationState }) => state.navigation.forward.length > 0;
+
 export default navigationSlice.reducer;
@@ -46,6 +46,29 @@ const selectionSlice = createSlice({
     selectAll: (state, action: PayloadAction<string[]>) => {
       state.selectedIds = action.payload;
     },
+    // Put back a selection saved earlier (e.g. when returning to a tab); not an edit, so not undoable
+    restoreSelection: (state, action: PayloadAction<string[]>) => {
+      state.selectedIds = action.payload;
+      state.lastSelectedId = action.payload[action.payload.length - 1];
+    },
+    // Select from the last selected item to endId (Shift+Click), keeping the current selection
+    selectRange: (state, action: PayloadAction<{ allIds: string[]; endId: string }>) => {
+      const { allIds, endId } = action.payload;
+
+      if (!state.lastSelectedId || state.selectionType === 'single') {
+        state.selectedIds = [endId];
+        state.lastSelectedId = endId;
+        return;
+      }
+
+      const startIndex = allIds.indexOf(state.lastSelectedId);
+      const endIndex = allIds.indexOf(endId);
+      if (startIndex < 0 || endIndex < 0) return;
+
+      const range = allIds.slice(Math.min(startIndex, endIndex), Math.max(startIndex, endIndex) + 1);
+      state.selectedIds = Array.from(new Set([...state.selectedIds, ...range]));
+      state.lastSelectedId = endId;
+    },
     clearSelection: (state) => {
       state.selectedIds = [];
       state.lastSelectedId = undefined;
@@ -64,8 +87,15 @@ export const {
   deselectItem,
   toggleSelection,
   selectAll,
+  restoreSelection,
+  selectRange,
   clearSelection,
   setSelectionType,
 } = selectionSlice.actions;
 
 export default selectionSlice.reducer;
+
+// Selectors
+export const selectSelectedIds = (state: { selection: SelectionState }) => state.selection.selectedIds;
+export const selectLastSelectedId = (state: { selection: SelectionState }) => state.selection.lastSelectedId;
+export const selectSelectionCount = (state: { selection: SelectionState }) => state.selection.selectedIds.length;
@@ -0,0 +1,101 @@
+import React, { createContext, useCallback, useContext, ReactNode } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { AnyAction } from '@reduxjs/toolkit';
+import type { FiltersState } from './slices/filtersSlice';
+import type { SelectionState } from './slices/selectionSlice';
+import type { NavigationState } from './slices/navigationSlice';
+
+/**
+ * Tab-scoped state
+ *
+ * A tab's reducer is injected under a key prefixed by the tab id and owned by
+ * that tab. Through the scoped hooks a tab reads its own slice and the shared
+ * slices (which the store freezes), and its actions only reach its own
+ * reducers.
+ */
+
+/**
+ * Shared slices a tab may read
+ */
+export type SharedSlices = Readonly<{
+  filters: FiltersState;
+  selection: SelectionState;
+  navigation: NavigationState;
+}>;
+
+/**
+ * Store key of a tab's reducer, e.g. tabReducerKey('files', 'items') -> 'files/items'
+ */
+export const tabReducerKey = (tabId: string, key: string) => `${tabId}/${key}`;
+
+/**
+ * Tab an action is scoped to, if any (set by useTabDispatch)
+ */
+export const getActionTabId = (action: AnyAction): string | undefined =>
+  typeof action.meta?.tabId === 'string' ? action.meta.tabId : undefined;
+
+interface TabScopeValue {
+  tabId: string;
+  reducerKey?: string;
+}
+
+const TabScopeContext = createContext<TabScopeValue | null>(null);
+
+export interface TabScopeProviderProps {
+  tabId: string;
+  reducerKey?: string; // The tab's own reducer key, without the tab id prefix
+  children: ReactNode;
+}
+
+/**
+ * Scope the tab-state hooks to a tab; the host wraps each tab in one
+ */
+export const TabScopeProvider: React.FC<TabScopeProviderProps> = ({ tabId, reducerKey, children }) => (
+  <TabScopeContext.Provider value={{ tabId, reducerKey }}>{children}</TabScopeContext.Provider>
+);
+
+const useTabScope = (hook: string): TabScopeValue => {
+  const scope = useContext(TabScopeContext);
+  if (!scope) {
+    throw new Error(`${hook} must be used within TabScopeProvider`);
+  }
+  return scope;
+};
+
+/**
+ * Select from the tab's own slice and the read-only shared slices
+ *
+ * @example
+ * const sortBy = useTabSelector((state: FilesState) => state.sortBy);
+ * const searchText = useTabSelector((_state, shared) => shared.filters.searchText);
+ */
+export const useTabSelector = <TState = unknown, TResult = unknown>(
+  selector: (state: TState | undefined, shared: SharedSlices) => TResult
+): TResult => {
+  const { tabId, reducerKey } = useTabScope('useTabSelector');
+
+  return useSelector((state: Record<string, any>) =>
+    selector(reducerKey ? state[tabReducerKey(tabId, reducerKey)] : undefined, {
+      filters: state.filters,
+      selection: state.selection,
+      navigation: state.navigation,
+    })
+  );
+};
+
+/**
+ * Dispatch actions that only the tab's own reducers receive
+ *
+ * @example
+ * const dispatch = useTabDispatch();
+ * dispatch(setSortBy('name'));
+ */
+export const useTabDispatch = (): (<T extends AnyAction>(action: T) => T) => {
+  const { tabId } = useTabScope('useTabDispatch');
+  const dispatch = useDispatch();
+
+  return useCallback(
+    <T extends AnyAction>(action: T): T => dispatch({ ...action, meta: { ...action.meta, tabId } }) as T,
+    [dispatch, tabId]
+  );
+};
@@ -0,0 +1,162 @@
+import { createAction, AnyAction, Reducer } from '@reduxjs/toolkit';
+
+/**
+ * Undo/redo history for the shared slices
+ *
+ * A single history covers all tracked slices, so undo always reverts the most
+ * recent change, whichever slice it touched. Each entry keeps the previous
+ * state of the slices that changed.
+ */
+
+export type UndoableSlice = 'filters' | 'selection' | 'navigation';
+
+export interface UndoSliceConfig {
+  ignore?: string[]; // Action types that change the slice without being recorded
+}
+
+export interface UndoHistoryConfig {
+  slices?: Partial<Record<UndoableSlice, boolean | UndoSliceConfig>>; // Tracked slices (default: all)
+  maxDepth?: number; // Entries kept (default: 50)
+  groupWindowMs?: number; // Changes to the same slices within this window form one entry (default: 500, 0 disables)
+}
+
+interface UndoEntry {
+  slices: Partial<Record<UndoableSlice, unknown>>;
+  timestamp: number;
+}
+
+export interface UndoHistoryState {
+  past: UndoEntry[];
+  future: UndoEntry[];
+}
+
+export const DEFAULT_UNDO_CONFIG: UndoHistoryConfig = {
+  slices: {
+    // Result counts follow the search rather than being edited
+    filters: { ignore: ['filters/updateResults'] },
+    // Restoring a tab's saved selection comes with switching tabs
+    selection: { ignore: ['selection/restoreSelection'] },
+    // Switching tabs and following the browser's history are not edits
+    navigation: {
+      ignore: [
+        'navigation/setActiveTab',
+        'navigation/syncNavigation',
+        'navigation/replaceEntry',
+        'navigation/saveTabState',
+      ],
+    },
+  },
+  maxDepth: 50,
+  groupWindowMs: 500,
+};
+
+export const undo = createAction('undoHistory/undo');
+export const redo = createAction('undoHistory/redo');
+export const clearUndoHistory = createAction('undoHistory/clear');
+
+const initialState: UndoHistoryState = { past: [], future: [] };
+
+/**
+ * Holds the history in the store; withUndoHistory does the actual work
+ */
+export const undoHistoryReducer: Reducer<UndoHistoryState> = (state = initialState) => state;
+
+type StateWithHistory = Record<string, unknown> & { undoHistory?: UndoHistoryState };
+
+const pickSlices = (state: StateWithHistory, slices: UndoableSlice[]) =>
+  Object.fromEntries(slices.map(slice => [slice, state[slice]])) as UndoEntry['slices'];
+
+const sameSlices = (a: UndoEntry['slices'], b: UndoableSlice[]) => {
+  const keys = Object.keys(a);
+  return keys.length === b.length && b.every(slice => keys.includes(slice));
+};
+
+/**
+ * Add undo/redo to a root reducer whose state includes `undoHistory`
+ * (see undoHistoryReducer)
+ */
+export const withUndoHistory = <S extends StateWithHistory>(
+  reducer: Reducer<S>,
+  config: UndoHistoryConfig = DEFAULT_UNDO_CONFIG
+): Reducer<S> => {
+  const maxDepth = config.maxDepth ?? 50;
+  const groupWindowMs = config.groupWindowMs ?? 500;
+  const tracked = Object.entries(config.slices || { filters: true, selection: true, navigation: true })
+    .filter(([, sliceConfig]) => sliceConfig)
+    .map(([slice, sliceConfig]) => ({
+      slice: slice as UndoableSlice,
+      ignore: typeof sliceConfig === 'object' ? sliceConfig.ignore || [] : [],
+    }));
+
+  // Move the latest entry of one stack to the other, swapping in the current slice state
+  const travel = (state: S, from: 'past' | 'future'): S => {
+    const history = state.undoHistory || initialState;
+    const entry = history[from][history[from].length - 1];
+    if (!entry) {
+      return state;
+    }
+
+    const current: UndoEntry = {
+      slices: pickSlices(state, Object.keys(entry.slices) as UndoableSlice[]),
+      timestamp: Date.now(),
+    };
+
+    return {
+      ...state,
+      ...entry.slices,
+      undoHistory:
+        from === 'past'
+          ? { past: history.past.slice(0, -1), future: [...history.future, current] }
+          : { past: [...history.past, current], future: history.future.slice(0, -1) },
+    };
+  };
+
+  return (state: S | undefined, action: AnyAction): S => {
+    if (state && undo.match(action)) {
+      return travel(state, 'past');
+    }
+    if (state && redo.match(action)) {
+      return travel(state, 'future');
+    }
+    if (state && clearUndoHistory.match(action)) {
+      return { ...state, undoHistory: initialState };
+    }
+
+    const next = reducer(state, action);
+    if (!state) {
+      return next;
+    }
+
+    // A slice without previous state is being initialized, not changed
+    const changed = tracked
+      .filter(
+        ({ slice, ignore }) =>
+          state[slice] !== undefined && next[slice] !== state[slice] && !ignore.includes(action.type)
+      )
+      .map(({ slice }) => slice);
+    if (changed.length === 0) {
+      return next;
+    }
+
+    const history = state.undoHistory || initialState;
+    const now = Date.now();
+    const last = history.past[history.past.length - 1];
+
+    // Keep the oldest snapshot of a burst (e.g. typing a search) as one entry
+    const past =
+      last && groupWindowMs > 0 && now - last.timestamp < groupWindowMs && sameSlices(last.slices, changed)
+        ? [...history.past.slice(0, -1), { ...last, timestamp: now }]
+        : [...history.past, { slices: pickSlices(state, changed), timestamp: now }];
+
+    return {
+      ...next,
+      undoHistory: { past: past.slice(-maxDepth), future: [] },
+    };
+  };
+};
+
+export const selectCanUndo = (state: { undoHistory?: UndoHistoryState }) =>
+  (state.undoHistory?.past.length ?? 0) > 0;
+
+export const selectCanRedo = (state: { undoHistory?: UndoHistoryState }) =>
+  (state.undoHistory?.future.length ?? 0) > 0;
@@ -71,6 +71,11 @@ module.exports = (env, argv) => {
             requiredVersion: packageJson.dependencies['react-redux'],
             strictVersion: false,
           },
+          '@platform/context': {
+            singleton: true,
+            requiredVersion: packageJson.dependencies['@platform/context'],
+            strictVersion: false,
+          },
           '@apollo/client': {
             singleton: true,
             requiredVersion: packageJson.dependencies['@apollo/client'],
@@ -1,5 +1,7 @@
-import React, { Suspense, lazy, useState, useEffect } from 'react';
-import { Provider, useDispatch } from 'react-redux';
+import React, { Suspense, lazy, useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { Provider, useDispatch, useSelector } from 'react-redux';
+import type { ErrorBoundaryProps } from 'shared_components/ErrorBoundary';
+import { reloadRemoteModule } from './remotes';
 
 // Lazy load remote modules - Box design system components
 // Add error handling for graceful fallback if shared_components remote fails
@@ -53,6 +55,21 @@ const NavigationProvider = lazy(() =>
     }))
 );
 
+const ErrorBoundary = lazy<React.ComponentType<ErrorBoundaryProps>>(() =>
+  import('shared_components/ErrorBoundary')
+    .then(m => ({ default: m.ErrorBoundary }))
+    .catch(() => ({
+      default: ({ children }: ErrorBoundaryProps) => <>{children}</>
+    }))
+);
+
+// Development only: event bus timeline and payload inspector
+const EventBusDevtools = lazy(() =>
+  import('shared_components/EventBusDevtools')
+    .then(m => ({ default: m.EventBusDevtools }))
+    .catch(() => ({ default: () => null }))
+);
+
 // Lazy load tabs
 const ContentShell = lazy(() => import('content_shell/ContentPlatform').catch(() => ({
   default: () => <div style={{ padding: '20px', color: '#999' }}>Content platform not available</div>
@@ -72,45 +89,71 @@ interface Tab {
   id: TabId;
   label: string;
   component: React.LazyExoticComponent<React.ComponentType<any>>;
+  remote: string; // Module Federation module id, used to reload the section
 }
 
 const tabs: Tab[] = [
-  { id: 'content', label: 'Content', component: ContentShell },
-  { id: 'reports', label: 'Reports', component: ReportsTab },
-  { id: 'user', label: 'User', component: UserTab },
+  { id: 'content', label: 'Content', component: ContentShell, remote: 'content_shell/ContentPlatform' },
+  { id: 'reports', label: 'Reports', component: ReportsTab, remote: 'reports_tab/App' },
+  { id: 'user', label: 'User', component: UserTab, remote: 'user_tab/App' },
 ];
 
 // Helper functions for URL state management
 const getUrlParams = () => {
   const params = new URLSearchParams(window.location.search);
   return {
-    tab: (params.get('tab') || 'content') as TabId,
     search: params.get('search') || '',
   };
 };
 
-const updateUrlParams = (tab: TabId, search: string) => {
-  const params = new URLSearchParams();
-  params.set('tab', tab);
+// The search is kept in the current URL without adding history entries
+const updateSearchParam = (search: string) => {
+  const params = new URLSearchParams(window.location.search);
   if (search) {
     params.set('search', search);
+  } else {
+    params.delete('search');
   }
   const newUrl = `${window.location.pathname}?${params.toString()}`;
-  window.history.pushState({}, '', newUrl);
+  window.history.replaceState(window.history.state, '', newUrl);
+};
+
+// Navigation entries of the shared store map to ?tab=...&path=... URLs
+const entryToUrl = ({ tab, path }: { tab: string; path: string }) => {
+  const params = new URLSearchParams(window.location.search);
+  params.set('tab', tab);
+  if (path !== '/') {
+    params.set('path', path);
+  } else {
+    params.delete('path');
+  }
+  return `${window.location.pathname}?${params.toString()}`;
+};
+
+const urlToEntry = (location: Location) => {
+  const params = new URLSearchParams(location.search);
+  return { tab: params.get('tab') || 'content', path: params.get('path') || '/' };
 };
 
 const AppContent: React.FC = () => {
   const dispatch = useDispatch();
 
+  // The active tab and history live in the shared store, synced with the browser history
+  const activeTab = useSelector((state: any) => state.navigation.activeTab) as TabId;
+  const canGoBack = useSelector((state: any) => state.navigation.history.length > 1);
+  const canGoForward = useSelector((state: any) => state.navigation.forward.length > 0);
+  const tabState = useSelector((state: any) => state.navigation.tabState);
+  const selectedIds = useSelector((state: any) => state.selection.selectedIds);
+
   // Initialize from URL params
-  const urlParams = getUrlParams();
-  const [activeTab, setActiveTab] = useState<TabId>(urlParams.tab);
-  const [searchValue, setSearchValue] = useState(urlParams.search);
+  const [searchValue, setSearchValue] = useState(getUrlParams().search);
+  // Sections re-fetched after a crash replace the statically imported ones
+  const [reloadedSections, setReloadedSections] = useState<Partial<Record<TabId, Tab['component']>>>({});
 
-  // Update URL when state changes
+  // Update URL when the search changes
   useEffect(() => {
-    updateUrlParams(activeTab, searchValue);
-  }, [activeTab, searchValue]);
+    updateSearchParam(searchValue);
+  }, [searchValue]);
 
   // Dispatch search to Redux store
   useEffect(() => {
@@ -125,18 +168,86 @@ const AppContent: React.FC = () => {
     dispatchSearch();
   }, [searchValue, dispatch]);
 
-  // Handle browser back/forward
+  // Handle browser back/forward; the store follows the tab on its own
   useEffect(() => {
     const handlePopState = () => {
-      const urlParams = getUrlParams();
-      setActiveTab(urlParams.tab);
-      setSearchValue(urlParams.search);
+      setSearchValue(getUrlParams().search);
     };
 
     window.addEventListener('popstate', handlePopState);
     return () => window.removeEventListener('popstate', handlePopState);
   }, []);
 
+  const selectTab = async (tab: TabId) => {
+    try {
+      const { setActiveTab } = await import('shared_data/store');
+      dispatch(setActiveTab(tab));
+    } catch (error) {
+      console.error('Failed to dispatch tab change:', error);
+    }
+  };
+
+  const moveInHistory = async (direction: 'back' | 'forward') => {
+    try {
+      const { goBack, goForward } = await import('shared_data/store');
+      dispatch(direction === 'back' ? goBack() : goForward());
+    } catch (error) {
+      console.error('Failed to dispatch history navigation:', error);
+    }
+  };
+
+  // Save the scroll position and selection of the tab being left, and restore
+  // those of the tab being shown. Runs before the browser scrolls the replaced
+  // content, so the last recorded scroll position still belongs to the old tab.
+  const contentAreaRef = useRef<HTMLDivElement>(null);
+  const scrollTopRef = useRef(0);
+  const shownTabRef = useRef(activeTab);
+  useLayoutEffect(() => {
+    const leftTab = shownTabRef.current;
+    if (leftTab === activeTab) return;
+
+    shownTabRef.current = activeTab;
+    const leftScrollTop = scrollTopRef.current;
+    const restored = tabState[activeTab];
+    if (contentAreaRef.current) {
+      contentAreaRef.current.scrollTop = restored?.scrollTop ?? 0;
+    }
+
+    const restoreTabState = async () => {
+      try {
+        const { saveTabState, restoreSelection } = await import('shared_data/store');
+        dispatch(saveTabState({ tab: leftTab, scrollTop: leftScrollTop, selectedIds }));
+        dispatch(restoreSelection(restored?.selectedIds ?? []));
+      } catch (error) {
+        console.error('Failed to restore tab state:', error);
+      }
+    };
+    restoreTabState();
+    // Only tab changes save and restore; the other values are read as of the switch
+  }, [activeTab]);
+
+  // Undo/redo shared filters, selection and navigation (Ctrl+Z / Ctrl+Shift+Z)
+  useEffect(() => {
+    const handleKeyDown = async (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+
+      // Leave text editing to the browser's own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      event.preventDefault();
+      try {
+        const { undo, redo } = await import('shared_data/store');
+        dispatch(event.shiftKey ? redo() : undo());
+      } catch (error) {
+        console.error('Failed to dispatch undo/redo:', error);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
   // Box design system - Sidebar items
   const sidebarItems = [
     {
@@ -217,7 +328,13 @@ const AppContent: React.FC = () => {
     backgroundColor: '#f7f7f8',
   };
 
-  const ActiveTabComponent = tabs.find(t => t.id === activeTab)?.component || tabs[0].component;
+  const activeSection = tabs.find(t => t.id === activeTab) || tabs[0];
+  const ActiveTabComponent = reloadedSections[activeSection.id] || activeSection.component;
+
+  const reloadSection = async (section: Tab) => {
+    const module = await reloadRemoteModule<{ default: React.ComponentType<any> }>(section.remote);
+    setReloadedSections(previous => ({ ...previous, [section.id]: lazy(async () => module) }));
+  };
 
   return (
     <Suspense fallback={<div style={{ padding: '20px', textAlign: 'center' }}>Loading platform...</div>}>
@@ -226,16 +343,20 @@ const AppContent: React.FC = () => {
           currentSection={activeTab}
           onNavigate={(target) => {
             if (target === 'content' || target === 'reports' || target === 'user') {
-              setActiveTab(target);
+              selectTab(target);
             }
           }}
+          onGoBack={() => moveInHistory('back')}
+          onGoForward={() => moveInHistory('forward')}
+          canGoBack={canGoBack}
+          canGoForward={canGoForward}
         >
           <div style={appContainerStyles}>
           {/* Box design system - Dark sidebar navigation */}
           <Sidebar
             items={sidebarItems}
             activeId={activeTab}
-            onItemClick={(item: { id: string }) => setActiveTab(item.id as TabId)}
+            onItemClick={(item: { id: string }) => selectTab(item.id as TabId)}
           />
 
           {/* Main content area with TopBar */}
@@ -257,19 +378,32 @@ const AppContent: React.FC = () => {
             />
 
             {/* Content area */}
-            <div style={contentAreaStyles}>
-              <Suspense
-                fallback={
-                  <div style={{ padding: '40px', textAlign: 'center', color: '#767676' }}>
-                    Loading {tabs.find(t => t.id === activeTab)?.label}...
-                  </div>
-                }
+            <div
+              ref={contentAreaRef}
+              style={contentAreaStyles}
+              onScroll={(event) => {
+                scrollTopRef.current = event.currentTarget.scrollTop;
+              }}
+            >
+              <ErrorBoundary
+                key={activeSection.id}
+                name={activeSection.label}
+                onRetry={() => reloadSection(activeSection)}
               >
-                <ActiveTabComponent />
-              </Suspense>
+                <Suspense
+                  fallback={
+                    <div style={{ padding: '40px', textAlign: 'center', color: '#767676' }}>
+                      Loading {activeSection.label}...
+                    </div>
+                  }
+                >
+                  <ActiveTabComponent />
+                </Suspense>
+              </ErrorBoundary>
             </div>
           </div>
         </div>
+        {process.env.NODE_ENV !== 'production' && <EventBusDevtools />}
         </NavigationProvider>
       </ThemeProvider>
     </Suspense>
@@ -281,15 +415,27 @@ const App: React.FC = () => {
   const [store, setStore] = useState<any>(null);
 
   useEffect(() => {
+    let stopHistorySync: (() => void) | undefined;
+    let cancelled = false;
+
     const initStore = async () => {
       try {
-        const { createStore } = await import('shared_data/store');
-        setStore(createStore());
+        const { createStore, syncNavigationWithBrowser } = await import('shared_data/store');
+        if (cancelled) return;
+
+        const newStore = createStore();
+        stopHistorySync = syncNavigationWithBrowser(newStore, { toUrl: entryToUrl, fromUrl: urlToEntry });
+        setStore(newStore);
       } catch (error) {
         console.error('Failed to initialize store:', error);
       }
     };
     initStore();
+
+    return () => {
+      cancelled = true;
+      stopHistorySync?.();
+    };
   }, []);
 
   if (!store) {
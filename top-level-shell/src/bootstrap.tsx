@@ -1,6 +1,18 @@
 import React, { Suspense, lazy } from 'react';
 import { createRoot } from 'react-dom/client';
 import { Provider } from 'react-redux';
+import {
+  PlatformProvider,
+  addEventMiddleware,
+  createFeatureFlagService,
+  createFlagFileProvider,
+  createLoggingMiddleware,
+  createSchemaValidationMiddleware,
+  startCrossWindowRelay,
+} from '@platform/context';
+import { loadCurrentUser } from './currentUser';
+
+declare const __FEATURE_FLAGS_URL__: string;
 
 // Import store creator from shared data
 const createStoreModule = import('shared_data/store');
@@ -10,11 +22,26 @@ const PlatformContextProvider = lazy(() =>
 
 import App from './App';
 
+// Check payloads against the event schemas and log platform events during development only
+if (process.env.NODE_ENV !== 'production') {
+  addEventMiddleware(createSchemaValidationMiddleware());
+  addEventMiddleware(createLoggingMiddleware());
+}
+
+// Keep selection and content changes in sync across browser tabs
+startCrossWindowRelay();
+
 // Bootstrap function to handle async imports
 async function bootstrap() {
-  const { createStore } = await createStoreModule;
+  const [{ createStore }, currentUser] = await Promise.all([createStoreModule, loadCurrentUser()]);
   const store = createStore();
 
+  // Flags gate dark-launched tabs and components; without a flag file every flag is off
+  const featureFlags = createFeatureFlagService({
+    userId: currentUser.id,
+    providers: __FEATURE_FLAGS_URL__ ? [createFlagFileProvider(__FEATURE_FLAGS_URL__)] : [],
+  });
+
   const rootElement = document.getElementById('root');
   if (!rootElement) {
     throw new Error('Root element not found');
@@ -25,7 +52,9 @@ async function bootstrap() {
     <Provider store={store}>
       <Suspense fallback={<div style={{ padding: '20px', textAlign: 'center' }}>Initializing platform...</div>}>
         <PlatformContextProvider>
-          <App />
+          <PlatformProvider user={currentUser} featureFlags={featureFlags}>
+            <App />
+          </PlatformProvider>
         </PlatformContextProvider>
       </Suspense>
     </Provider>
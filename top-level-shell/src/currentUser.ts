@@ -0,0 +1,60 @@
+import type { User } from '@platform/context';
+
+// Injected by webpack DefinePlugin (see webpack.config.js)
+declare const __CURRENT_USER_URL__: string;
+
+// Signed out: no permissions, so every gated tab and action stays hidden or disabled
+const ANONYMOUS_USER: User = {
+  id: 'anonymous',
+  name: 'Guest',
+  email: '',
+  permissions: [],
+};
+
+const isUser = (value: any): value is User =>
+  !!value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.permissions) &&
+  value.permissions.every((permission: unknown) => typeof permission === 'string');
+
+/**
+ * Load the signed-in user and their permissions
+ *
+ * The user is read as JSON (see User in @platform/context) from
+ * CURRENT_USER_URL. Development builds without a URL sign in a demo user;
+ * otherwise a missing or failing endpoint falls back to an anonymous user
+ * without permissions.
+ */
+export const loadCurrentUser = async (url: string = __CURRENT_USER_URL__): Promise<User> => {
+  if (!url) {
+    if (process.env.NODE_ENV !== 'production') {
+      return {
+        id: 'user-1',
+        name: 'Platform User',
+        email: 'user@example.com',
+        permissions: ['files:*', 'hubs:*', 'reports:read'],
+      };
+    }
+
+    console.error('[TopLevelShell] CURRENT_USER_URL is not configured, continuing without permissions');
+    return ANONYMOUS_USER;
+  }
+
+  try {
+    const response = await fetch(url, { credentials: 'include' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const user = await response.json();
+    if (!isUser(user)) {
+      throw new Error('Response is not a user with a permissions array');
+    }
+
+    return user;
+  } catch (error) {
+    console.error(`[TopLevelShell] Failed to load the current user from ${url}, continuing without permissions:`, error);
+    return ANONYMOUS_USER;
+  }
+};
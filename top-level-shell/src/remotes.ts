@@ -0,0 +1,29 @@
+import { init, registerRemotes, loadRemote } from '@module-federation/enhanced/runtime';
+
+/**
+ * Load a fresh copy of a remote module without reloading the page
+ *
+ * The remote is re-registered with force, which drops the cached container
+ * and modules, so its remoteEntry is fetched again. The entry URL is taken
+ * from the remotes configured in webpack.config.js.
+ *
+ * @param id - Remote module id, e.g. 'reports_tab/App'
+ */
+export const reloadRemoteModule = async <T>(id: string): Promise<T> => {
+  const remoteName = id.split('/')[0];
+  const host = init({ name: 'top_level_shell', remotes: [] });
+  const remote = host.options.remotes.find(item => item.name === remoteName);
+
+  if (!remote || !('entry' in remote)) {
+    throw new Error(`Remote ${remoteName} is not registered`);
+  }
+
+  registerRemotes([{ name: remoteName, entry: remote.entry }], { force: true });
+
+  const module = await loadRemote<T>(id);
+  if (!module) {
+    throw new Error(`Remote module ${id} could not be loaded`);
+  }
+
+  return module;
+};
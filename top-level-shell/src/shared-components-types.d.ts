@@ -359,6 +359,15 @@ export interface NavigationContextValue {
      * Navigate back
      */
     goBack?: () => void;
+    /**
+     * Navigate forward again after goBack
+     */
+    goForward?: () => void;
+    /**
+     * Whether goBack/goForward have an entry to move to
+     */
+    canGoBack: boolean;
+    canGoForward: boolean;
     /**
      * Navigate with state
      */
@@ -369,6 +378,9 @@ export interface NavigationProviderProps {
     currentSection: NavigationTarget;
     onNavigate: (target: NavigationTarget, params?: Record<string, any>) => void;
     onGoBack?: () => void;
+    onGoForward?: () => void;
+    canGoBack?: boolean;
+    canGoForward?: boolean;
 }
 /**
  * Navigation Provider
@@ -433,6 +445,87 @@ export default NavigationProvider;
 }
 
 
+declare module 'shared_components/ErrorBoundary' {
+import React from 'react';
+/**
+ * Error details passed to the telemetry hook
+ */
+export interface ErrorReport {
+    boundary: string;
+    error: Error;
+    componentStack?: string;
+    timestamp: Date;
+}
+export type ErrorReporter = (report: ErrorReport) => void;
+/**
+ * Route errors caught by every ErrorBoundary to a telemetry service
+ *
+ * shared-components is a singleton, so one call in the host applies to all
+ * boundaries, including those rendered by remotes. Pass null to restore the
+ * default console reporter.
+ */
+export declare const setErrorReporter: (reporter: ErrorReporter | null) => void;
+export interface ErrorBoundaryProps {
+    name: string;
+    children: React.ReactNode;
+    onRetry?: () => void | Promise<void>;
+    resetKeys?: unknown[];
+}
+interface ErrorBoundaryState {
+    error: Error | null;
+    retrying: boolean;
+    retryError: string | null;
+    attempt: number;
+}
+/**
+ * Error boundary for micro-frontend sections
+ *
+ * Catches render errors in its subtree, reports them through the telemetry
+ * hook and shows a failure card with a retry button. Retry runs onRetry (if
+ * given) and then remounts the children.
+ */
+export declare class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+    state: ErrorBoundaryState;
+    private isUnmounted;
+    static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState>;
+    componentDidCatch(error: Error, info: React.ErrorInfo): void;
+    componentDidUpdate(prevProps: ErrorBoundaryProps): void;
+    componentWillUnmount(): void;
+    private handleRetry;
+    render(): React.JSX.Element;
+}
+export default ErrorBoundary;
+
+}
+
+
+declare module 'shared_components/EventBusDevtools' {
+import React from 'react';
+export interface EventBusDevtoolsProps {
+    defaultOpen?: boolean;
+    maxEvents?: number;
+}
+/**
+ * EventBusDevtools Component
+ *
+ * Development overlay for the platform event bus. Shows a live, filterable
+ * timeline of every published event with its source MFE, subscriber count and
+ * handler durations, an inspector for the selected payload, and can re-emit a
+ * captured event. Reads the bus history (see @platform/context), so it does
+ * not add a subscriber of its own.
+ *
+ * Render it in development builds only.
+ *
+ * @example
+ * ```tsx
+ * {process.env.NODE_ENV !== 'production' && <EventBusDevtools />}
+ * ```
+ */
+export declare const EventBusDevtools: React.FC<EventBusDevtoolsProps>;
+
+}
+
+
 // Module Federation Type Declarations
 // Generated by package-types.js
 
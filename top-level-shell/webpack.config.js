@@ -1,3 +1,4 @@
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const { ModuleFederationPlugin } = require('@module-federation/enhanced/webpack');
 const path = require('path');
@@ -71,12 +72,19 @@ module.exports = (env, argv) => {
           'react-dom': { singleton: true, requiredVersion: '^18.0.0', strictVersion: false },
           '@reduxjs/toolkit': { singleton: true, requiredVersion: '^2.0.0', strictVersion: false },
           'react-redux': { singleton: true, requiredVersion: '^9.0.0', strictVersion: false },
+          '@platform/context': { singleton: true, requiredVersion: '^1.0.0', strictVersion: false },
         },
         shareStrategy: 'version-first',
         dts: {
           consumeTypes: true,
         },
       }),
+      new webpack.DefinePlugin({
+        // Optional flag file (see FlagFile in @platform/context)
+        __FEATURE_FLAGS_URL__: JSON.stringify(process.env.FEATURE_FLAGS_URL || ''),
+        // Signed-in user and permissions as JSON (see currentUser.ts); development builds fall back to a demo user
+        __CURRENT_USER_URL__: JSON.stringify(process.env.CURRENT_USER_URL || ''),
+      }),
       new HtmlWebpackPlugin({
         template: './public/index.html',
         title: 'Modular Platform',
@@ -53,6 +53,7 @@ module.exports = (env, argv) => {
         shared: {
           react: { singleton: true, requiredVersion: packageJson.dependencies.react, strictVersion: false },
           'react-dom': { singleton: true, requiredVersion: packageJson.dependencies['react-dom'], strictVersion: false },
+          '@platform/context': { singleton: true, requiredVersion: '^1.0.0', strictVersion: false },
         },
         shareStrategy: 'version-first',
         dts: {